@@ -25,7 +25,7 @@ async function main() {
 
   console.log('Preparing to log with quotient_logger');
   try {
-    const logId = await quotient.log({
+    const result = await quotient.log({
       userQuery: 'How do I cook a test?',
       modelOutput: 'The capital of France is Paris',
       documents: retrievedDocuments,
@@ -39,7 +39,7 @@ async function main() {
         "Answer the question in a concise manner. If you are not sure, say 'I don't know'.",
       ],
     });
-    console.log('logged with logId: ', logId);
+    console.log('logged with status: ', result.status, 'logId: ', result.id);
   } catch (error) {
     console.error(error);
   }
@@ -1,10 +1,23 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse } from 'axios';
 import * as jwt from 'jsonwebtoken';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { TokenData } from './types';
-import { logError, QuotientAIError } from './exceptions';
+import { QuotientAIOptions, TokenStore } from './types';
+import { logError, toQuotientError } from './exceptions';
+import { diagnostics } from './diagnostics';
+import { FileTokenStore, MemoryTokenStore, NoopTokenStore } from './tokens';
+import { RequestOptions, isIdempotentMethod, retryDelay, shouldRetry, sleep } from './retry';
+
+export const DEFAULT_BASE_URL = 'https://api.quotientai.co/api/v1';
+export const DEFAULT_TIMEOUT = 60000;
+export const DEFAULT_MAX_RETRIES = 2;
+const USER_AGENT = 'quotientai-typescript';
+
+export type ClientOptions = Omit<
+  QuotientAIOptions,
+  'apiKey' | 'spool' | 'strict' | 'diagnostics' | 'logLevel'
+>;
 
 export class BaseQuotientClient {
   private apiKey: string;
@@ -12,38 +25,65 @@ export class BaseQuotientClient {
   private tokenExpiry: number = 0;
   private tokenPath: string;
   private tokenApiKey: string | null = null;
+  private tokenStore: TokenStore;
+  private tokenLoaded: Promise<void> | null = null;
+  // Pending while the store is re-read for a token refreshed elsewhere
+  private reloading: Promise<void> | null = null;
+  public readonly baseUrl: string;
+  public readonly maxRetries: number;
+  public readonly defaultHeaders: Record<string, string>;
+  // Directory holding auth tokens and other SDK state, e.g. ~/.quotient
+  public readonly storageDir: string;
   public client: AxiosInstance;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: ClientOptions = {}) {
     this.apiKey = apiKey;
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.defaultHeaders = options.defaultHeaders || {};
 
     // Determine token directory
-    let tokenDir: string;
-    try {
-      tokenDir = os.homedir();
-    } catch {
-      if (fs.existsSync('/root/')) {
-        tokenDir = '/root';
-      } else {
-        tokenDir = process.cwd();
+    if (options.tokenStorageDir) {
+      this.storageDir = options.tokenStorageDir;
+    } else {
+      let homeDir: string;
+      try {
+        homeDir = os.homedir();
+      } catch {
+        if (fs.existsSync('/root/')) {
+          homeDir = '/root';
+        } else {
+          homeDir = process.cwd();
+        }
       }
+      this.storageDir = path.join(homeDir, '.quotient');
     }
 
     // get the last six characters of the api key
     const apiKeyHash = this.apiKey ? this.apiKey.slice(-6) : '';
-    this.tokenPath = path.join(tokenDir, '.quotient', apiKeyHash + 'auth_token.json');
+    this.tokenPath = path.join(this.storageDir, apiKeyHash + 'auth_token.json');
+
+    if (options.tokenStore === 'memory') {
+      this.tokenStore = new MemoryTokenStore();
+    } else if (options.tokenStore === 'none') {
+      this.tokenStore = new NoopTokenStore();
+    } else if (options.tokenStore && options.tokenStore !== 'file') {
+      this.tokenStore = options.tokenStore;
+    } else {
+      this.tokenStore = new FileTokenStore(this.tokenPath);
+    }
 
     // Initialize axios instance
     this.client = axios.create({
-      baseURL: 'https://api.quotientai.co/api/v1',
+      baseURL: this.baseUrl,
+      timeout: options.timeout ?? DEFAULT_TIMEOUT,
       headers: {
+        ...this.defaultHeaders,
+        'User-Agent': options.userAgent ? `${USER_AGENT} ${options.userAgent}` : USER_AGENT,
         Authorization: `Bearer ${apiKey}`,
       },
     });
 
-    // Load existing token
-    this.loadToken();
-
     // Set up response interceptor for token handling
     this.client.interceptors.response.use(
       (response) => this.handleResponse(response),
@@ -51,46 +91,72 @@ export class BaseQuotientClient {
     );
   }
 
-  private loadToken(): void {
-    if (!fs.existsSync(this.tokenPath)) {
-      return;
-    }
-
+  // Read the stored token into memory
+  private async loadToken(): Promise<void> {
     try {
-      const data = JSON.parse(fs.readFileSync(this.tokenPath, 'utf-8')) as TokenData;
-      this.token = data.token;
-      this.tokenExpiry = data.expires_at;
-      this.tokenApiKey = data.api_key;
-    } catch {
+      const data = await this.tokenStore.load();
+      if (data) {
+        this.token = data.token;
+        this.tokenExpiry = data.expires_at;
+        this.tokenApiKey = data.api_key;
+      }
+    } catch (error) {
       // If loading fails, token remains null
+      logError(error as Error, 'BaseQuotientClient.loadToken');
     }
   }
 
+  // The store is read once, before the first request; afterwards the in-memory token is used
+  private ensureTokenLoaded(): Promise<void> {
+    if (!this.tokenLoaded) {
+      this.tokenLoaded = this.loadToken();
+    }
+    return this.tokenLoaded;
+  }
+
   private saveToken(token: string, expiry: number): void {
+    // Concurrent responses can arrive out of order; keep whichever token lives longest
+    if (this.token && this.tokenApiKey === this.apiKey && expiry < this.tokenExpiry) {
+      return;
+    }
+
     this.token = token;
     this.tokenExpiry = expiry;
+    this.tokenApiKey = this.apiKey;
 
+    const onError = (error: unknown) => logError(error as Error, 'BaseQuotientClient.saveToken');
     try {
-      // Create directory if it doesn't exist
-      fs.mkdirSync(path.dirname(this.tokenPath), { recursive: true });
-
-      // Save to disk
-      fs.writeFileSync(
-        this.tokenPath,
-        JSON.stringify({ token, expires_at: expiry, api_key: this.apiKey })
-      );
+      const saved = this.tokenStore.save({ token, expires_at: expiry, api_key: this.apiKey });
+      if (saved instanceof Promise) {
+        saved.catch(onError);
+      }
     } catch (error) {
-      logError(
-        new QuotientAIError(
-          'Could not create directory for token. If you see this error please notify us at contact@quotientai.co'
-        )
-      );
+      onError(error);
     }
   }
 
-  private isTokenValid(): boolean {
-    this.loadToken();
+  /**
+   * Make sure the freshest known token is in memory before a request is sent. When the
+   * token is missing or expiring, the store is re-read since another process may have
+   * refreshed it; concurrent requests share one read. If there is still no usable
+   * token, the request authenticates with the API key. Requests never wait for each
+   * other, as saveToken() keeps the longest-lived of the JWTs they bring back.
+   */
+  private async acquireToken(): Promise<void> {
+    await this.ensureTokenLoaded();
+    if (this.isTokenValid()) {
+      return;
+    }
 
+    if (!this.reloading) {
+      this.reloading = this.loadToken().finally(() => {
+        this.reloading = null;
+      });
+    }
+    await this.reloading;
+  }
+
+  private isTokenValid(): boolean {
     if (!this.token) {
       return false;
     }
@@ -129,37 +195,78 @@ export class BaseQuotientClient {
     return response;
   }
 
-  // GET requests returns json
-  public async get<T>(path: string, params?: Record<string, any>, timeout?: number): Promise<T> {
-    this.updateAuthHeader();
-    const response = await this.client.get(path, { params, timeout });
-    return response.data;
+  /**
+   * Send a request, retrying retryable failures with exponential backoff.
+   * The auth header is refreshed before every attempt, and the final failure
+   * is thrown as the matching QuotientAIError subclass.
+   */
+  private async request<T>(
+    method: string,
+    send: () => Promise<AxiosResponse<T>>,
+    options: RequestOptions
+  ): Promise<T> {
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+    const idempotent = options.idempotent ?? isIdempotentMethod(method);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquireToken();
+      this.updateAuthHeader();
+      let delay: number;
+      try {
+        const response = await send();
+        return response.data;
+      } catch (error) {
+        if (attempt >= maxRetries || !shouldRetry(error, idempotent)) {
+          throw toQuotientError(error);
+        }
+        delay = retryDelay(error, attempt);
+        diagnostics.debug(`Retrying ${method} request in ${delay}ms`, {
+          method,
+          path: (error as AxiosError).config?.url,
+          status: (error as AxiosError).response?.status,
+          attempt: attempt + 1,
+        });
+      }
+      await sleep(delay);
+    }
   }
 
-  public async post<T>(path: string, data: any = {}, timeout?: number): Promise<T> {
-    this.updateAuthHeader();
+  // GET requests returns json
+  public async get<T>(
+    path: string,
+    params?: Record<string, any>,
+    timeout?: number,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.request('GET', () => this.client.get(path, { params, timeout }), options);
+  }
 
+  public async post<T>(
+    path: string,
+    data: any = {},
+    timeout?: number,
+    options: RequestOptions = {}
+  ): Promise<T> {
     // Filter out null values
     const filteredData = Array.isArray(data)
       ? data.filter((v) => v !== null)
       : Object.fromEntries(Object.entries(data).filter(([_, v]) => v !== null));
 
-    const response = await this.client.post(path, filteredData, { timeout });
-    return response.data;
+    return this.request('POST', () => this.client.post(path, filteredData, { timeout }), options);
   }
 
-  public async patch<T>(path: string, data: any = {}, timeout?: number): Promise<T> {
-    this.updateAuthHeader();
-
+  public async patch<T>(
+    path: string,
+    data: any = {},
+    timeout?: number,
+    options: RequestOptions = {}
+  ): Promise<T> {
     const filteredData = Object.fromEntries(Object.entries(data).filter(([_, v]) => v !== null));
 
-    const response = await this.client.patch(path, filteredData, { timeout });
-    return response.data;
+    return this.request('PATCH', () => this.client.patch(path, filteredData, { timeout }), options);
   }
 
-  public async delete<T>(path: string, timeout?: number): Promise<T> {
-    this.updateAuthHeader();
-    const response = await this.client.delete(path, { timeout });
-    return response.data;
+  public async delete<T>(path: string, timeout?: number, options: RequestOptions = {}): Promise<T> {
+    return this.request('DELETE', () => this.client.delete(path, { timeout }), options);
   }
 }
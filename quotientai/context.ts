@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface LogContext {
+  // Added to every log made, and every span started, inside the context
+  tags?: Record<string, any>;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with a context that follows it across awaits, timers and callbacks.
+ * Nested contexts merge their tags over those of the enclosing one.
+ */
+export function withContext<T>(context: LogContext, fn: () => T): T {
+  const current = storage.getStore();
+  return storage.run({ tags: { ...current?.tags, ...context.tags } }, fn);
+}
+
+// Tags of the active context, if any
+export function getContextTags(): Record<string, any> {
+  return storage.getStore()?.tags ?? {};
+}
+
+// Context tags as span attributes; values that spans can't hold are sent as JSON
+export function getContextAttributes(): Record<string, string | number | boolean | any[]> {
+  const attributes: Record<string, string | number | boolean | any[]> = {};
+  for (const [name, value] of Object.entries(getContextTags())) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const primitive = ['string', 'number', 'boolean'].includes(typeof value);
+    // Attribute arrays must hold a single primitive type
+    const primitiveArray =
+      Array.isArray(value) &&
+      ['string', 'number', 'boolean'].some((type) =>
+        value.every((item: unknown) => typeof item === type)
+      );
+    attributes[name] = primitive || primitiveArray ? value : JSON.stringify(value);
+  }
+  return attributes;
+}
@@ -0,0 +1,89 @@
+export type DiagnosticsLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+// Receives the SDK's own diagnostic messages, e.g. to forward them to a structured logger
+export interface DiagnosticsLogger {
+  debug(message: string, fields?: Record<string, any>): void;
+  info(message: string, fields?: Record<string, any>): void;
+  warn(message: string, fields?: Record<string, any>): void;
+  error(message: string, fields?: Record<string, any>): void;
+}
+
+export interface DiagnosticsConfig {
+  // Where messages go (default: the console)
+  logger?: DiagnosticsLogger;
+  // Least severe level that is emitted; 'silent' turns diagnostics off (default: 'info')
+  level?: DiagnosticsLevel;
+}
+
+const LEVELS: Record<DiagnosticsLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * Writes to the console. Errors are timestamped and followed by the stack of
+ * fields.error when there is one; other fields are only passed to custom loggers.
+ */
+export const consoleDiagnosticsLogger: DiagnosticsLogger = {
+  debug(message: string) {
+    console.debug(message);
+  },
+  info(message: string) {
+    console.log(message);
+  },
+  warn(message: string) {
+    console.warn(message);
+  },
+  error(message: string, fields?: Record<string, any>) {
+    console.error(`[${new Date().toISOString()}] ${message}`);
+    if (fields?.error instanceof Error) {
+      console.error(fields.error.stack || '');
+    }
+  },
+};
+
+let currentLogger: DiagnosticsLogger = consoleDiagnosticsLogger;
+let currentLevel: number = LEVELS.info;
+
+/**
+ * Set where SDK diagnostics go and which levels are emitted. This applies to
+ * every client in the process; options left out keep their current values.
+ */
+export function configureDiagnostics(config: DiagnosticsConfig = {}): void {
+  if (config.logger !== undefined) {
+    currentLogger = config.logger;
+  }
+  if (config.level !== undefined) {
+    currentLevel = LEVELS[config.level];
+  }
+}
+
+// Send diagnostics to the console again, at the default level
+export function resetDiagnostics(): void {
+  currentLogger = consoleDiagnosticsLogger;
+  currentLevel = LEVELS.info;
+}
+
+function emit(level: Exclude<DiagnosticsLevel, 'silent'>) {
+  return (message: string, fields?: Record<string, any>): void => {
+    if (LEVELS[level] < currentLevel) {
+      return;
+    }
+    try {
+      currentLogger[level](message, fields);
+    } catch {
+      // A broken diagnostics logger must never break the caller
+    }
+  };
+}
+
+// Used by the SDK in place of console.* so output can be redirected or silenced
+export const diagnostics: DiagnosticsLogger = {
+  debug: emit('debug'),
+  info: emit('info'),
+  warn: emit('warn'),
+  error: emit('error'),
+};
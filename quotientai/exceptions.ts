@@ -4,14 +4,12 @@ import axios, {
   AxiosResponse,
   InternalAxiosRequestConfig,
 } from 'axios';
+import { diagnostics } from './diagnostics';
 
 export function logError(error: Error, context?: string) {
-  const timestamp = new Date().toISOString();
   const contextStr = context ? `[${context}] ` : '';
-  const stack = error.stack || '';
 
-  console.error(`[${timestamp}] ${contextStr}${error.name}: ${error.message}`);
-  console.error(stack);
+  diagnostics.error(`${contextStr}${error.name}: ${error.message}`, { error, context });
 }
 
 export class QuotientAIError extends Error {
@@ -22,9 +20,16 @@ export class QuotientAIError extends Error {
 }
 
 export class ValidationError extends QuotientAIError {
-  constructor(message: string) {
+  // Machine-readable reason: 'required', 'invalid_type', 'out_of_range', 'conflict' or 'not_configured'
+  code?: string;
+  // Path of the offending field, e.g. "documents[2].pageContent"
+  field?: string;
+
+  constructor(message: string, details: { code?: string; field?: string } = {}) {
     super(message);
     this.name = 'ValidationError';
+    this.code = details.code;
+    this.field = details.field;
   }
 }
 
@@ -34,12 +39,17 @@ export class APIError extends QuotientAIError {
   code?: string;
   param?: string;
   type?: string;
+  // HTTP method and API path of the failing request, e.g. "POST" and "/logs"
+  method?: string;
+  path?: string;
 
   constructor(message: string, request: AxiosRequestConfig, body?: any) {
     super(message);
     this.name = 'APIError';
     this.request = request;
     this.body = body;
+    this.method = request?.method?.toUpperCase();
+    this.path = request?.url;
 
     if (body && typeof body === 'object') {
       this.code = body.code;
@@ -64,12 +74,18 @@ export class APIResponseValidationError extends APIError {
 export class APIStatusError extends APIError {
   response: AxiosResponse;
   status: number;
+  // Human readable error detail parsed from the response body
+  detail?: string;
+  // Value of the x-request-id response header, useful when contacting support
+  requestId?: string;
 
   constructor(message: string, response: AxiosResponse, body?: any) {
     super(message, response.config, body);
     this.name = 'APIStatusError';
     this.response = response;
     this.status = response.status;
+    this.detail = parseErrorDetail(body);
+    this.requestId = response.headers?.['x-request-id'];
   }
 }
 
@@ -143,8 +159,8 @@ export class RateLimitError extends APIStatusError {
   }
 }
 
+// Covers every 5xx status, so the status reflects the actual response
 export class InternalServerError extends APIStatusError {
-  status = 500;
   constructor(message: string, response: AxiosResponse, body?: any) {
     super(message, response, body);
     this.name = 'InternalServerError';
@@ -191,103 +207,181 @@ export function parseBadRequestError(response: AxiosResponse): string {
   }
 }
 
+/**
+ * Extract a human readable message from an error response body. Handles plain
+ * strings, `{ detail: string }`, FastAPI validation lists and `{ message: string }`.
+ */
+export function parseErrorDetail(body: any): string | undefined {
+  if (body === null || body === undefined) {
+    return undefined;
+  }
+  if (typeof body === 'string') {
+    return body || undefined;
+  }
+  if (typeof body !== 'object') {
+    return undefined;
+  }
+
+  const detail = body.detail;
+  if (typeof detail === 'string') {
+    return detail;
+  }
+  if (Array.isArray(detail)) {
+    const missingFields = detail
+      .filter((item) => item?.type === 'missing' && Array.isArray(item.loc))
+      .map((item) => item.loc[item.loc.length - 1]);
+    if (missingFields.length && missingFields.length === detail.length) {
+      return `missing required fields: ${missingFields.join(', ')}`;
+    }
+    return detail
+      .map((item) => {
+        const loc = Array.isArray(item?.loc) ? item.loc.join('.') : undefined;
+        const msg = item?.msg || JSON.stringify(item);
+        return loc ? `${loc}: ${msg}` : msg;
+      })
+      .join('; ');
+  }
+  if (typeof body.message === 'string') {
+    return body.message;
+  }
+  return undefined;
+}
+
+/**
+ * Convert an error thrown by axios into the matching QuotientAIError subclass.
+ * Errors that did not come from axios are returned unchanged.
+ */
+export function toQuotientError(error: unknown): Error {
+  if (error instanceof QuotientAIError || !axios.isAxiosError(error)) {
+    return error as Error;
+  }
+
+  const axiosError = error as AxiosError;
+  const response = axiosError.response;
+
+  if (response) {
+    const { status, data } = response;
+    const detail = parseErrorDetail(data);
+
+    switch (status) {
+      case 400:
+        return new BadRequestError(
+          detail || 'bad request: the request was invalid.',
+          response,
+          data
+        );
+      case 401:
+        return new AuthenticationError(
+          'unauthorized: the request requires user authentication. ensure your API key is correct.',
+          response,
+          data
+        );
+      case 403:
+        return new PermissionDeniedError(
+          'forbidden: the server understood the request, but it refuses to authorize it.',
+          response,
+          data
+        );
+      case 404:
+        return new NotFoundError(
+          'not found: the server can not find the requested resource.',
+          response,
+          data
+        );
+      case 409:
+        return new ConflictError(
+          detail || 'conflict: the request conflicts with the current state of the resource.',
+          response,
+          data
+        );
+      case 422:
+        return new UnprocessableEntityError(
+          detail || 'unprocessable entity: the request was well-formed but invalid.',
+          response,
+          data
+        );
+      case 429:
+        return new RateLimitError(
+          'rate limited: too many requests. please slow down and try again later.',
+          response,
+          data
+        );
+      default:
+        if (status >= 500) {
+          return new InternalServerError(
+            `internal server error: status code ${status}. contact support@quotientai.co for help.`,
+            response,
+            data
+          );
+        }
+        return new APIStatusError(
+          `unexpected status code: ${status}. contact support@quotientai.co for help.`,
+          response,
+          data
+        );
+    }
+  }
+
+  if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+    return new APITimeoutError(axiosError.config);
+  }
+
+  return new APIConnectionError(
+    'connection error. please try again later.',
+    axiosError.config || { url: 'unknown' }
+  );
+}
+
+/**
+ * Whether an error is likely to go away on its own (connection failures, timeouts,
+ * 408, 429 and 5xx responses), making the request worth sending again later.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof APIConnectionError) {
+    return true;
+  }
+  if (error instanceof APIStatusError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
+export type Result<T> =
+  | { ok: true; data: T; error: null }
+  | { ok: false; data: null; error: QuotientAIError };
+
+/**
+ * Await a resource call and return its outcome instead of throwing, e.g.
+ * `const { ok, data, error } = await asResult(quotient.logs.list())`.
+ * Errors that are not QuotientAIErrors are rethrown.
+ */
+export async function asResult<T>(promise: Promise<T>): Promise<Result<T>> {
+  try {
+    return { ok: true, data: await promise, error: null };
+  } catch (error) {
+    if (error instanceof QuotientAIError) {
+      return { ok: false, data: null, error };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Method decorator for methods resolving to an axios response: returns the response
+ * data, or logs the error as the matching QuotientAIError subclass (see
+ * toQuotientError) and returns null. Retries are left to BaseQuotientClient.
+ */
 export function handleErrors() {
   return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
     const originalMethod = descriptor.value;
 
     descriptor.value = async function (...args: any[]) {
-      let retries = 3;
-      let delay = 1000;
-
-      while (retries > 0) {
-        try {
-          const response = await originalMethod.apply(this, args);
-          return response.data;
-        } catch (err) {
-          if (axios.isAxiosError(err)) {
-            const axiosError = err as AxiosError;
-
-            if (axiosError.response) {
-              const { status, data } = axiosError.response;
-
-              switch (status) {
-                case 400: {
-                  const message = parseBadRequestError(axiosError.response);
-                  const error = new BadRequestError(message, axiosError.response, data);
-                  logError(error, `${target.constructor.name}.${propertyKey}`);
-                  return null;
-                }
-                case 401: {
-                  const error = new AuthenticationError(
-                    'unauthorized: the request requires user authentication. ensure your API key is correct.',
-                    axiosError.response,
-                    data
-                  );
-                  logError(error, `${target.constructor.name}.${propertyKey}`);
-                  return null;
-                }
-                case 403: {
-                  const error = new PermissionDeniedError(
-                    'forbidden: the server understood the request, but it refuses to authorize it.',
-                    axiosError.response,
-                    data
-                  );
-                  logError(error, `${target.constructor.name}.${propertyKey}`);
-                  return null;
-                }
-                case 404: {
-                  const error = new NotFoundError(
-                    'not found: the server can not find the requested resource.',
-                    axiosError.response,
-                    data
-                  );
-                  logError(error, `${target.constructor.name}.${propertyKey}`);
-                  return null;
-                }
-                case 422: {
-                  const unprocessableMessage = parseUnprocessableEntityError(axiosError.response);
-                  const error = new UnprocessableEntityError(
-                    unprocessableMessage,
-                    axiosError.response,
-                    data
-                  );
-                  logError(error, `${target.constructor.name}.${propertyKey}`);
-                  return null;
-                }
-                default: {
-                  const error = new APIStatusError(
-                    `unexpected status code: ${status}. contact support@quotientai.co for help.`,
-                    axiosError.response,
-                    data
-                  );
-                  logError(error, `${target.constructor.name}.${propertyKey}`);
-                  return null;
-                }
-              }
-            }
-
-            if (axiosError.code === 'ECONNABORTED') {
-              if (retries > 1) {
-                retries--;
-                await new Promise((resolve) => setTimeout(resolve, delay));
-                delay *= 2; // Exponential backoff
-                continue;
-              }
-              const error = new APITimeoutError(axiosError.config);
-              logError(error, `${target.constructor.name}.${propertyKey}`);
-              return null;
-            }
-
-            const connectionError = new APIConnectionError(
-              'connection error. please try again later.',
-              axiosError.config || { url: 'unknown' }
-            );
-            logError(connectionError, `${target.constructor.name}.${propertyKey}`);
-            return null;
-          }
-          logError(err as Error, `${target.constructor.name}.${propertyKey}`);
-          return null;
-        }
+      try {
+        const response = await originalMethod.apply(this, args);
+        return response.data;
+      } catch (err) {
+        logError(toQuotientError(err), `${target.constructor.name}.${propertyKey}`);
+        return null;
       }
     };
 
@@ -0,0 +1,231 @@
+import { once } from 'events';
+import { Log } from './resources/logs';
+import { DetectionResults } from './types';
+
+// What each exported row describes
+export type ExportRowKind = 'log' | 'sentence' | 'document';
+
+// Columns shared by every kind of row, identifying the log it came from
+const LOG_KEY_COLUMNS = ['logId', 'createdAt', 'appName', 'environment', 'userQuery'];
+
+const LOG_COLUMNS = [
+  ...LOG_KEY_COLUMNS,
+  'modelOutput',
+  'documents',
+  'messageHistory',
+  'instructions',
+  'tags',
+  'sessionId',
+  'conversationId',
+  'turnIndex',
+  'model',
+  'provider',
+  'promptTokens',
+  'completionTokens',
+  'latencyMs',
+  'cost',
+  'detections',
+  'status',
+  'hasHallucination',
+  'hasInconsistency',
+  'docRelevancyAverage',
+];
+
+// Summary of the detection results, added to log rows when they are fetched
+const DETECTION_SUMMARY_COLUMNS = [
+  'evaluatedSentences',
+  'hallucinatedSentences',
+  'relevantDocuments',
+  'irrelevantDocuments',
+  'feedback',
+];
+
+const SENTENCE_COLUMNS = [
+  ...LOG_KEY_COLUMNS,
+  'sentenceIndex',
+  'sentence',
+  'isHallucinated',
+  'fullDocContextHasHallucination',
+  'fullDocContextReasoning',
+  'supportingDocumentIds',
+  'supportingMessageHistoryIds',
+  'supportingInstructionIds',
+];
+
+const DOCUMENT_COLUMNS = [
+  ...LOG_KEY_COLUMNS,
+  'documentIndex',
+  'documentId',
+  'content',
+  'metadata',
+  'isRelevant',
+  'relevancyReasoning',
+];
+
+export type ExportRow = Record<string, any>;
+
+// Columns of the rows of a kind, in order
+export function exportColumns(kind: ExportRowKind, includeDetections: boolean): string[] {
+  if (kind === 'sentence') {
+    return SENTENCE_COLUMNS;
+  }
+  if (kind === 'document') {
+    return DOCUMENT_COLUMNS;
+  }
+  return includeDetections ? [...LOG_COLUMNS, ...DETECTION_SUMMARY_COLUMNS] : LOG_COLUMNS;
+}
+
+function logKey(log: Log): ExportRow {
+  return {
+    logId: log.id,
+    createdAt: log.createdAt.toISOString(),
+    appName: log.appName,
+    environment: log.environment,
+    userQuery: log.userQuery,
+  };
+}
+
+/**
+ * Flatten a log, and its detection results if fetched, into rows of the given kind.
+ * A log has one 'log' row; 'sentence' and 'document' rows come from the detection
+ * results, so a log without results has none.
+ */
+export function flattenLog(
+  log: Log,
+  detections: DetectionResults | null | undefined,
+  kind: ExportRowKind
+): ExportRow[] {
+  if (kind === 'sentence') {
+    return (detections?.evaluations ?? []).map((evaluation) => ({
+      ...logKey(log),
+      sentenceIndex: evaluation.index,
+      sentence: evaluation.sentence,
+      isHallucinated: evaluation.isHallucinated,
+      fullDocContextHasHallucination: evaluation.fullDocContextHasHallucination,
+      fullDocContextReasoning: evaluation.fullDocContextEvaluation?.reasoning ?? null,
+      supportingDocumentIds: evaluation.supportingDocumentIds,
+      supportingMessageHistoryIds: evaluation.supportingMessageHistoryIds,
+      supportingInstructionIds: evaluation.supportingInstructionIds,
+    }));
+  }
+
+  if (kind === 'document') {
+    return (detections?.logDocuments ?? []).map((document) => ({
+      ...logKey(log),
+      documentIndex: document.index,
+      documentId: document.id,
+      content: document.content,
+      metadata: document.metadata,
+      isRelevant: document.isRelevant,
+      relevancyReasoning: document.relevancyReasoning,
+    }));
+  }
+
+  const row: ExportRow = {
+    ...logKey(log),
+    modelOutput: log.modelOutput,
+    documents: log.documents,
+    messageHistory: log.messageHistory,
+    instructions: log.instructions,
+    tags: log.tags,
+    sessionId: log.sessionId ?? null,
+    conversationId: log.conversationId ?? null,
+    turnIndex: log.turnIndex ?? null,
+    model: log.model ?? null,
+    provider: log.provider ?? null,
+    promptTokens: log.promptTokens ?? null,
+    completionTokens: log.completionTokens ?? null,
+    latencyMs: log.latencyMs ?? null,
+    cost: log.cost ?? null,
+    detections: log.detections ?? [],
+    status: log.status ?? null,
+    hasHallucination: log.hasHallucination,
+    hasInconsistency: log.hasInconsistency,
+    docRelevancyAverage: log.docRelevancyAverage,
+  };
+  if (detections !== undefined) {
+    const documents = detections?.logDocuments ?? [];
+    Object.assign(row, {
+      evaluatedSentences: detections ? detections.evaluations.length : null,
+      hallucinatedSentences: detections
+        ? detections.evaluations.filter((evaluation) => evaluation.isHallucinated).length
+        : null,
+      relevantDocuments: detections
+        ? documents.filter((document) => document.isRelevant === true).length
+        : null,
+      irrelevantDocuments: detections
+        ? documents.filter((document) => document.isRelevant === false).length
+        : null,
+      feedback: detections?.feedback ?? [],
+    });
+  }
+  return [row];
+}
+
+// Characters that make spreadsheet apps read a cell as a formula
+const CSV_FORMULA_START = /^[=+\-@\t\r]/;
+
+// Quote a CSV cell if needed; lists and objects are written as JSON. Text that a
+// spreadsheet would run as a formula, e.g. a user query of '=HYPERLINK(...)', is
+// prefixed with ' so it is shown as text
+function toCsvCell(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  if (typeof value === 'string' && CSV_FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRecord(cells: any[]): string {
+  return cells.map(toCsvCell).join(',') + '\n';
+}
+
+/**
+ * Writes rows to a stream as JSONL or CSV, waiting whenever the stream asks
+ * writers to slow down. The stream is left open.
+ */
+export class RowWriter {
+  private output: NodeJS.WritableStream;
+  private format: 'jsonl' | 'csv';
+  private columns: string[];
+  private started = false;
+
+  constructor(output: NodeJS.WritableStream, format: 'jsonl' | 'csv', columns: string[]) {
+    this.output = output;
+    this.format = format;
+    this.columns = columns;
+  }
+
+  // Write the CSV header, if it hasn't been written yet
+  async start(): Promise<void> {
+    if (!this.started) {
+      this.started = true;
+      if (this.format === 'csv') {
+        await this.write(formatCsvRecord(this.columns));
+      }
+    }
+  }
+
+  async writeRow(row: ExportRow): Promise<void> {
+    await this.start();
+    await this.write(
+      this.format === 'csv'
+        ? formatCsvRecord(this.columns.map((column) => row[column]))
+        : JSON.stringify(row) + '\n'
+    );
+  }
+
+  private async write(text: string): Promise<void> {
+    if (!this.output.write(text)) {
+      await once(this.output, 'drain');
+    }
+  }
+}
@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { v5 as uuidv5 } from 'uuid';
+import { ValidationError } from './exceptions';
+import { LogEntry } from './types';
+
+// LogEntry fields that can be read from an imported row
+export type ImportField =
+  | 'id'
+  | 'createdAt'
+  | 'appName'
+  | 'environment'
+  | 'userQuery'
+  | 'modelOutput'
+  | 'documents'
+  | 'messageHistory'
+  | 'instructions'
+  | 'tags'
+  | 'sessionId'
+  | 'conversationId'
+  | 'turnIndex'
+  | 'model'
+  | 'provider'
+  | 'promptTokens'
+  | 'completionTokens'
+  | 'latencyMs'
+  | 'cost'
+  | 'detections'
+  | 'detectionSampleRate';
+
+const IMPORT_FIELDS: ImportField[] = [
+  'id',
+  'createdAt',
+  'appName',
+  'environment',
+  'userQuery',
+  'modelOutput',
+  'documents',
+  'messageHistory',
+  'instructions',
+  'tags',
+  'sessionId',
+  'conversationId',
+  'turnIndex',
+  'model',
+  'provider',
+  'promptTokens',
+  'completionTokens',
+  'latencyMs',
+  'cost',
+  'detections',
+  'detectionSampleRate',
+];
+
+const NUMBER_FIELDS = new Set<ImportField>([
+  'turnIndex',
+  'promptTokens',
+  'completionTokens',
+  'latencyMs',
+  'cost',
+  'detectionSampleRate',
+]);
+// Lists whose CSV cells may also hold a single plain-text item
+const LIST_FIELDS = new Set<ImportField>(['documents', 'instructions']);
+const JSON_FIELDS = new Set<ImportField>([
+  'documents',
+  'messageHistory',
+  'instructions',
+  'tags',
+  'detections',
+]);
+
+// Namespace for ids derived from row contents
+const IMPORT_ID_NAMESPACE = '6f1c8a52-3d4e-4b7a-9c2f-0e5d8b1a7c34';
+
+export interface ImportRecord {
+  // 1-based position of the row in the file, not counting a CSV header
+  row: number;
+  // The row as read: a parsed JSON value, or CSV cells by column name
+  data: any;
+  // The row's text, used to derive a stable id
+  raw: string;
+}
+
+// Split one CSV record into cells, handling quoted cells with commas, quotes and newlines
+export function parseCsvRecord(text: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Read the rows of a JSONL or CSV file one at a time, without loading the whole
+ * file. Rows that can't be parsed are yielded with an error instead of data.
+ */
+export async function* readRecords(
+  filePath: string,
+  format: 'jsonl' | 'csv'
+): AsyncGenerator<ImportRecord & { error?: ValidationError }> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  let header: string[] | null = null;
+  let pending = '';
+  let row = 0;
+  for await (const line of lines) {
+    if (format === 'jsonl') {
+      if (!line.trim()) {
+        continue;
+      }
+      row++;
+      try {
+        yield { row, data: JSON.parse(line), raw: line };
+      } catch (error) {
+        yield {
+          row,
+          data: null,
+          raw: line,
+          error: new ValidationError(`Row is not valid JSON: ${(error as Error).message}`, {
+            code: 'invalid_type',
+          }),
+        };
+      }
+      continue;
+    }
+
+    // A quoted CSV cell can span lines; wait until its closing quote
+    pending = pending ? `${pending}\n${line}` : line;
+    if ((pending.match(/"/g) || []).length % 2 === 1) {
+      continue;
+    }
+    const raw = pending;
+    pending = '';
+    if (!raw.trim()) {
+      continue;
+    }
+    const cells = parseCsvRecord(raw);
+    if (!header) {
+      header = cells.map((name) => name.trim());
+      continue;
+    }
+    row++;
+    yield { row, data: Object.fromEntries(header.map((name, i) => [name, cells[i]])), raw };
+  }
+
+  if (pending) {
+    row++;
+    yield {
+      row,
+      data: null,
+      raw: pending,
+      error: new ValidationError('Row has an unterminated quoted cell', { code: 'invalid_type' }),
+    };
+  }
+}
+
+// Value at a dotted path such as 'meta.user_id'
+function getPath(data: any, path: string): any {
+  if (data && typeof data === 'object' && path in data) {
+    return data[path];
+  }
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+// Convert a raw value, e.g. a CSV cell, to the type of a LogEntry field
+function convertField(field: ImportField, value: any): any {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'string') {
+    if (NUMBER_FIELDS.has(field)) {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        throw new ValidationError(`${field} must be a number, found '${value}'`, {
+          code: 'invalid_type',
+          field,
+        });
+      }
+      return number;
+    }
+    if (field === 'detections' && !value.trim().startsWith('[')) {
+      return value
+        .split(',')
+        .map((detection) => detection.trim())
+        .filter(Boolean);
+    }
+    if (JSON_FIELDS.has(field)) {
+      const trimmed = value.trim();
+      if (LIST_FIELDS.has(field) && !trimmed.startsWith('[')) {
+        return [value];
+      }
+      try {
+        return JSON.parse(trimmed);
+      } catch {
+        throw new ValidationError(`${field} is not valid JSON`, { code: 'invalid_type', field });
+      }
+    }
+  }
+  if (field === 'createdAt') {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new ValidationError(`createdAt is not a valid date: '${value}'`, {
+        code: 'invalid_type',
+        field,
+      });
+    }
+    return date.toISOString();
+  }
+  return value;
+}
+
+/**
+ * Map an imported row onto LogEntry fields. mapping names the column or key for a
+ * field; fields without one are read from a column or key of the same name. Rows
+ * without an id get one derived from their position and contents, so importing the
+ * same file again does not create duplicates.
+ */
+export function mapRecord(
+  record: ImportRecord,
+  mapping: Partial<Record<ImportField, string>>,
+  defaults: Partial<LogEntry> = {}
+): LogEntry {
+  const entry: Record<string, any> = {};
+  for (const field of IMPORT_FIELDS) {
+    const value = convertField(field, getPath(record.data, mapping[field] ?? field));
+    if (value !== undefined) {
+      entry[field] = value;
+    }
+  }
+
+  return {
+    ...defaults,
+    ...entry,
+    id:
+      entry.id !== undefined
+        ? String(entry.id)
+        : uuidv5(`${record.row}:${record.raw}`, IMPORT_ID_NAMESPACE),
+  } as LogEntry;
+}
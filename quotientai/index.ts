@@ -2,17 +2,44 @@ import { BaseQuotientClient } from './client';
 import { QuotientLogger } from './logger';
 import { AuthResource } from './resources/auth';
 import { LogsResource } from './resources/logs';
+import { FeedbackResource } from './resources/feedback';
 import { TracingResource } from './tracing';
 import { logError } from './exceptions';
-import { LogEntry, DetectionResults } from './types';
+import { LogSpool } from './spool';
+import { LogContext, withContext } from './context';
+import { RequestOptions } from './retry';
+import {
+  LogEntry,
+  LogResult,
+  DetectionResults,
+  QuotientAIOptions,
+  SpoolConfig,
+  FeedbackParams,
+  FeedbackResult,
+} from './types';
+import * as path from 'path';
 
 export class QuotientAI {
   public auth: AuthResource = null!;
   public logs: LogsResource = null!;
+  public feedbackResource: FeedbackResource = null!;
   public logger: QuotientLogger = null!;
   public tracer: TracingResource = null!;
 
-  constructor(apiKey?: string) {
+  /**
+   * Create a Quotient client.
+   *
+   * Args:
+   *     apiKeyOrOptions: API key, or a QuotientAIOptions object (falls back to QUOTIENT_API_KEY)
+   *     options: Optional client options (baseUrl, timeout, maxRetries, tokenStorageDir,
+   *         tokenStore, defaultHeaders, userAgent, spool, strict)
+   */
+  constructor(apiKeyOrOptions?: string | QuotientAIOptions, options: QuotientAIOptions = {}) {
+    const { apiKey, spool, strict, ...clientOptions } =
+      typeof apiKeyOrOptions === 'object' && apiKeyOrOptions !== null
+        ? { ...options, ...apiKeyOrOptions }
+        : { ...options, apiKey: apiKeyOrOptions || options.apiKey };
+
     const key = apiKey || process.env.QUOTIENT_API_KEY;
     if (!key) {
       const error = new Error(
@@ -23,33 +50,54 @@ export class QuotientAI {
       logError(error, 'QuotientAI.constructor');
       return;
     } else {
-      const client = new BaseQuotientClient(key);
-      this.initializeResources(client);
+      const client = new BaseQuotientClient(key, clientOptions);
+      this.initializeResources(client, spool, strict);
     }
   }
 
-  private initializeResources(client: BaseQuotientClient): void {
+  private initializeResources(
+    client: BaseQuotientClient,
+    spoolConfig?: boolean | SpoolConfig,
+    strict: boolean = false
+  ): void {
     // Initialize resources
     this.auth = new AuthResource(client);
     this.logs = new LogsResource(client);
+    this.feedbackResource = new FeedbackResource(client);
+
+    // Spool logs that fail to send under the client's storage directory
+    let spool: LogSpool | null = null;
+    if (spoolConfig) {
+      const config = spoolConfig === true ? {} : spoolConfig;
+      spool = new LogSpool(config.directory || path.join(client.storageDir, 'spool'), config);
+    }
 
     // Create an unconfigured logger instance
-    this.logger = new QuotientLogger(this.logs as LogsResource);
+    this.logger = new QuotientLogger(
+      this.logs as LogsResource,
+      spool,
+      strict,
+      this.feedbackResource
+    );
+
+    // Send anything spooled by a previous run
+    if (spool?.hasPending()) {
+      this.logger
+        .replaySpool()
+        .catch((error) => logError(error as Error, 'QuotientAI.replaySpool'));
+    }
 
     // Create tracing resource
     this.tracer = new TracingResource(client);
 
-    // Authenticate
-    try {
-      this.auth.authenticate();
-    } catch (error) {
+    // Authenticate in the background; failures are typed errors from the client
+    this.auth.authenticate().catch((error) => {
       logError(
         error as Error,
         'If you are seeing this error, please check that your API key is correct.\n' +
           'If the issue persists, please contact support@quotientai.co'
       );
-      return;
-    }
+    });
   }
 
   /**
@@ -71,14 +119,77 @@ export class QuotientAI {
    *     messageHistory: Optional conversation history
    *     instructions: Optional list of instructions
    *     tags: Optional tags to attach to the log
+   *     sessionId: Optional id grouping the turns of a session; see logger.session()
+   *     conversationId: Optional id of the conversation within the session
+   *     turnIndex: Optional position of the turn in the session, starting at 0
+   *     model, provider: Optional model name and provider that produced modelOutput
+   *     promptTokens, completionTokens: Optional token usage of the model call
+   *     latencyMs: Optional model response time in milliseconds
+   *     cost: Optional cost in USD; computed from the logger's prices when left out
    *
    * Returns:
-   *     Log ID if successful, null otherwise
+   *     LogResult with the status ('sent', 'sampled_out', 'invalid', 'dropped' or 'failed'),
+   *     the log ID when sent, and any validation or API errors
    */
-  async log(params: Omit<LogEntry, 'appName' | 'environment'>): Promise<any> {
+  async log(params: Omit<LogEntry, 'appName' | 'environment'>): Promise<LogResult> {
     return this.logger._internalLog(params);
   }
 
+  /**
+   * Record end-user feedback on a log.
+   *
+   * Args:
+   *     logId: ID of the log, as returned by log()
+   *     feedback: At least one of thumbs ('up' or 'down'), rating (a number) or
+   *         comment, plus an optional userId and tags
+   *     options: Optional retry behaviour of the request, e.g. { maxRetries: 0 }
+   *
+   * Returns:
+   *     FeedbackResult with the status ('sent', 'invalid' or 'failed'), the feedback
+   *     ID when sent, and any validation or API errors. Feedback that can't reach the
+   *     API is spooled and sent later, like logs, when the spool is enabled.
+   */
+  async feedback(
+    logId: string,
+    feedback: FeedbackParams,
+    options: RequestOptions = {}
+  ): Promise<FeedbackResult> {
+    return this.logger._internalFeedback(logId, feedback, options);
+  }
+
+  /**
+   * Run a function with context tags that are added to every log and span made
+   * inside it, including in async code it starts.
+   *
+   * Args:
+   *     context: Tags to add, e.g. { tags: { requestId, userId } }. Tags passed to
+   *         log() take precedence; nested contexts merge their tags.
+   *     fn: The function to run
+   *
+   * Returns:
+   *     Whatever fn returns
+   */
+  withContext<T>(context: LogContext, fn: () => T): T {
+    return withContext(context, fn);
+  }
+
+  /**
+   * Send all logs queued by a batching logger.
+   */
+  async flush(): Promise<void> {
+    await this.logger.flush();
+  }
+
+  /**
+   * Flush queued logs and pending spans, then stop background work.
+   * This also happens automatically on process exit.
+   */
+  async shutdown(): Promise<void> {
+    await this.logger.shutdown();
+    await this.tracer.forceFlush();
+    this.tracer.shutdown();
+  }
+
   /**
    * Poll for detection results.
    *
@@ -101,4 +212,57 @@ export class QuotientAI {
 
 // Export types that users need
 export { TracingConfig } from './tracing';
-export { DetectionType } from './types';
+export {
+  DetectionType,
+  LOG_STATUS,
+  LogResult,
+  QuotientAIOptions,
+  BatchConfig,
+  SpoolConfig,
+  TokenStore,
+  SamplingRule,
+  SamplingMatch,
+  RedactionConfig,
+  Redactor,
+  BuiltinRedactor,
+  BeforeSendHook,
+  PayloadLimits,
+  ChildLoggerOptions,
+  SessionOptions,
+  ModelPrice,
+  PriceTable,
+  FeedbackParams,
+  FeedbackResult,
+  Feedback,
+} from './types';
+export { ChildLogger, LogSession } from './logger';
+export { LogContext } from './context';
+export { computeCost } from './pricing';
+export { FileTokenStore, MemoryTokenStore, NoopTokenStore } from './tokens';
+export {
+  DiagnosticsLogger,
+  DiagnosticsLevel,
+  DiagnosticsConfig,
+  configureDiagnostics,
+  resetDiagnostics,
+} from './diagnostics';
+export { QueueStats } from './queue';
+export { RequestOptions } from './retry';
+export {
+  QuotientAIError,
+  ValidationError,
+  APIError,
+  APIStatusError,
+  APIConnectionError,
+  APITimeoutError,
+  BadRequestError,
+  AuthenticationError,
+  PermissionDeniedError,
+  NotFoundError,
+  ConflictError,
+  UnprocessableEntityError,
+  RateLimitError,
+  InternalServerError,
+  Result,
+  asResult,
+} from './exceptions';
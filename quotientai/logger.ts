@@ -5,52 +5,194 @@ import {
   LOG_STATUS,
   DetectionResults,
   DetectionType,
+  LogResult,
+  SamplingRule,
+  RedactionConfig,
+  BeforeSendHook,
+  PayloadLimits,
+  ChildLoggerOptions,
+  SessionOptions,
+  PriceTable,
+  FeedbackParams,
+  FeedbackResult,
 } from './types';
-import { ValidationError, logError } from './exceptions';
+import { CreateLogParams } from './resources/logs';
+import { ValidationError, isRetryableError, logError } from './exceptions';
+import { diagnostics } from './diagnostics';
+import { BatchOutcome, LogQueue, QueueStats } from './queue';
+import { LogSpool, SpoolRecord } from './spool';
+import { RequestOptions } from './retry';
+import { findSamplingRule, hashToUnit } from './sampling';
+import { BUILTIN_REDACTORS, LogRedactor, REDACTION_TAG } from './redaction';
+import { TRUNCATION_TAG, truncateLog } from './truncation';
+import { getContextTags } from './context';
+import { computeCost } from './pricing';
+import {
+  isValidLogDocument,
+  validateDetectionRequirements,
+  validateDocuments,
+  validateLogFields,
+} from './validation';
 import { v4 as uuidv4 } from 'uuid';
 
+interface FeedbackResource {
+  create(logId: string, params: any, options?: RequestOptions): Promise<any>;
+}
+
 interface LogsResource {
   create(params: any): Promise<any>;
+  createBatch?(logs: any[]): Promise<any>;
   list(): Promise<LogEntry[]>;
   getDetections(logId: string): Promise<any>;
 }
 
 export class QuotientLogger {
+  // Minimum time between automatic spool replays in milliseconds
+  static REPLAY_INTERVAL = 30000;
+
   private appName: string | null = null;
   private environment: string | null = null;
   private tags: Record<string, any> = {};
   private sampleRate: number = 1.0;
+  // Derives the key that makes sampling deterministic; see LoggerConfig.sampleBy
+  private sampleBy: LoggerConfig['sampleBy'] = undefined;
+  // Checked in order; the first match overrides sampleRate, detections and detectionSampleRate
+  private samplingRules: SamplingRule[] = [];
+  // Set when redaction is enabled; applied to every log before it is sent
+  private redactor: LogRedactor | null = null;
+  // beforeSend hooks from init(), then those added with beforeSend(), run in that order
+  private configHooks: BeforeSendHook[] = [];
+  private hooks: BeforeSendHook[] = [];
+  // Size limits applied last, after hooks and redaction
+  private limits: PayloadLimits | null = null;
+  // Used to fill in the cost of logs that have a model and token counts
+  private prices: PriceTable | null = null;
   private configured: boolean = false;
   private logsResource: LogsResource;
+  // Sends feedback recorded with quotient.feedback(); it shares the spool with logs
+  private feedbackResource: FeedbackResource | null;
+  // Set when batching is enabled; logs are then sent in the background
+  private queue: LogQueue<Record<string, any>> | null = null;
+  // Set when spooling is enabled; logs that fail to send are persisted and replayed later
+  private spool: LogSpool | null;
+  private lastReplayAt: number = 0;
+  // Throw ValidationError instead of logging it; set by the client, overridable in init()
+  private defaultStrict: boolean;
+  private strict: boolean;
 
   // New detection parameters (recommended)
   private detections: DetectionType[] = [];
   private detectionSampleRate: number = 0.0;
 
-  constructor(logsResource: LogsResource) {
+  constructor(
+    logsResource: LogsResource,
+    spool: LogSpool | null = null,
+    strict: boolean = false,
+    feedbackResource: FeedbackResource | null = null
+  ) {
     this.logsResource = logsResource;
+    this.feedbackResource = feedbackResource;
+    this.spool = spool;
+    this.defaultStrict = strict;
+    this.strict = strict;
+  }
+
+  // Report an invalid config: throw in strict mode, otherwise log it and leave the logger unconfigured
+  private rejectConfig(error: ValidationError): QuotientLogger {
+    this.configured = false;
+    if (this.strict) {
+      throw error;
+    }
+    logError(error);
+    return this;
   }
 
   init(config: LoggerConfig): QuotientLogger {
+    this.strict = config.strict ?? this.defaultStrict;
+
     if (!config.appName || typeof config.appName !== 'string') {
-      logError(new Error('appName must be a non-empty string'));
-      this.configured = false;
-      return this;
+      return this.rejectConfig(
+        new ValidationError('appName must be a non-empty string', {
+          code: 'required',
+          field: 'appName',
+        })
+      );
     }
     if (!config.environment || typeof config.environment !== 'string') {
-      logError(new Error('environment must be a non-empty string'));
-      this.configured = false;
-      return this;
+      return this.rejectConfig(
+        new ValidationError('environment must be a non-empty string', {
+          code: 'required',
+          field: 'environment',
+        })
+      );
     }
     if (config.tags && typeof config.tags !== 'object') {
-      logError(new Error('tags must be a dictionary'));
-      this.configured = false;
-      return this;
+      return this.rejectConfig(
+        new ValidationError('tags must be a dictionary', { code: 'invalid_type', field: 'tags' })
+      );
     }
     if (config.sampleRate && typeof config.sampleRate !== 'number') {
-      logError(new Error('sampleRate must be a number'));
-      this.configured = false;
-      return this;
+      return this.rejectConfig(
+        new ValidationError('sampleRate must be a number', {
+          code: 'invalid_type',
+          field: 'sampleRate',
+        })
+      );
+    }
+    if (
+      config.sampleBy !== undefined &&
+      typeof config.sampleBy !== 'string' &&
+      typeof config.sampleBy !== 'function'
+    ) {
+      return this.rejectConfig(
+        new ValidationError('sampleBy must be a tag name or a function', {
+          code: 'invalid_type',
+          field: 'sampleBy',
+        })
+      );
+    }
+    if (config.samplingRules !== undefined) {
+      const error = this.validateSamplingRules(config.samplingRules);
+      if (error) {
+        return this.rejectConfig(error);
+      }
+    }
+    if (config.redaction && typeof config.redaction === 'object') {
+      const error = this.validateRedaction(config.redaction);
+      if (error) {
+        return this.rejectConfig(error);
+      }
+    }
+    if (config.limits !== undefined) {
+      const error = this.validateLimits(config.limits);
+      if (error) {
+        return this.rejectConfig(error);
+      }
+    }
+    if (config.prices !== undefined) {
+      const error = this.validatePrices(config.prices);
+      if (error) {
+        return this.rejectConfig(error);
+      }
+    }
+    if (config.batch && typeof config.batch === 'object') {
+      const { maxBatchSize, maxQueueSize } = config.batch;
+      if (maxBatchSize !== undefined && maxBatchSize < 1) {
+        return this.rejectConfig(
+          new ValidationError('batch.maxBatchSize must be at least 1', {
+            code: 'out_of_range',
+            field: 'batch.maxBatchSize',
+          })
+        );
+      }
+      if (maxQueueSize !== undefined && maxQueueSize < (maxBatchSize ?? 1)) {
+        return this.rejectConfig(
+          new ValidationError('batch.maxQueueSize must be at least batch.maxBatchSize', {
+            code: 'out_of_range',
+            field: 'batch.maxQueueSize',
+          })
+        );
+      }
     }
 
     // Check for deprecated vs new detection parameter usage
@@ -67,20 +209,19 @@ export class QuotientLogger {
 
     // Prevent mixing deprecated and new detection parameters
     if (deprecatedDetectionParamsUsed && detectionParamsUsed) {
-      logError(
-        new Error(
+      // Return early to prevent any further configuration
+      return this.rejectConfig(
+        new ValidationError(
           'Cannot mix deprecated parameters (hallucinationDetection, inconsistencyDetection, hallucinationDetectionSampleRate) ' +
-            'with new detection parameters (detections, detectionSampleRate) in logger.init(). Please use new detection parameters.'
+            'with new detection parameters (detections, detectionSampleRate) in logger.init(). Please use new detection parameters.',
+          { code: 'conflict', field: 'detections' }
         )
       );
-      // Explicitly set configured to false and return early to prevent any further configuration
-      this.configured = false;
-      return this;
     }
 
     // Handle deprecated parameters (with deprecation warnings)
     if (deprecatedDetectionParamsUsed) {
-      console.warn(
+      diagnostics.warn(
         'Deprecated parameters (hallucinationDetection, inconsistencyDetection, hallucinationDetectionSampleRate) ' +
           'are deprecated as of 0.0.9. Please use new detection parameters (detections, detectionSampleRate) instead.'
       );
@@ -106,17 +247,47 @@ export class QuotientLogger {
     this.environment = config.environment;
     this.tags = config.tags || {};
     this.sampleRate = config.sampleRate || 1.0;
+    this.sampleBy = config.sampleBy;
+    this.samplingRules = config.samplingRules || [];
+    this.configHooks = config.beforeSend
+      ? Array.isArray(config.beforeSend)
+        ? config.beforeSend
+        : [config.beforeSend]
+      : [];
+    this.redactor = config.redaction
+      ? new LogRedactor(config.redaction === true ? {} : config.redaction)
+      : null;
+    this.limits = config.limits ?? null;
+    this.prices = config.prices ?? null;
 
     if (this.sampleRate < 0 || this.sampleRate > 1) {
-      logError(new Error('sampleRate must be between 0.0 and 1.0'));
-      this.configured = false;
-      return this;
+      return this.rejectConfig(
+        new ValidationError('sampleRate must be between 0.0 and 1.0', {
+          code: 'out_of_range',
+          field: 'sampleRate',
+        })
+      );
     }
 
     if (this.detectionSampleRate < 0 || this.detectionSampleRate > 1) {
-      logError(new Error('detectionSampleRate must be between 0.0 and 1.0'));
-      this.configured = false;
-      return this;
+      return this.rejectConfig(
+        new ValidationError('detectionSampleRate must be between 0.0 and 1.0', {
+          code: 'out_of_range',
+          field: 'detectionSampleRate',
+        })
+      );
+    }
+
+    // Drain and replace any queue from a previous init()
+    if (this.queue) {
+      void this.queue.shutdown();
+      this.queue = null;
+    }
+    if (config.batch) {
+      this.queue = new LogQueue(
+        (logs) => this.sendBatch(logs),
+        config.batch === true ? {} : config.batch
+      );
     }
 
     this.configured = true;
@@ -124,90 +295,325 @@ export class QuotientLogger {
     return this;
   }
 
-  private shouldSample(): boolean {
-    return Math.random() < this.sampleRate;
-  }
-
-  // Type guard function to check if an object is a valid LogDocument
-  private isValidLogDocument(obj: any): { valid: boolean; error?: string } {
+  private async sendBatch(logs: Record<string, any>[]): Promise<BatchOutcome> {
     try {
-      // Check if it has the required pageContent property
-      if (!('pageContent' in obj)) {
-        return {
-          valid: false,
-          error: "Missing required 'pageContent' property",
-        };
+      if (this.logsResource.createBatch) {
+        await this.logsResource.createBatch(logs);
+      } else {
+        for (const log of logs) {
+          await this.logsResource.create(log);
+        }
+      }
+    } catch (error) {
+      if (!this.spoolLogs(logs, error)) {
+        throw error;
       }
+      return 'spooled';
+    }
+    this.scheduleReplay();
+    return 'sent';
+  }
 
-      // Check if pageContent is a string
-      if (typeof obj.pageContent !== 'string') {
-        return {
-          valid: false,
-          error: `The 'pageContent' property must be a string, found ${typeof obj.pageContent}`,
-        };
+  // Persist logs that failed with a transient error. Returns false if they were not spooled.
+  private spoolLogs(logs: Record<string, any>[], error: unknown): boolean {
+    if (!this.spool || !isRetryableError(error)) {
+      return false;
+    }
+    const spooled = logs.every((log) => this.spool!.append('log', log));
+    if (spooled) {
+      logError(error as Error, 'QuotientLogger: API unreachable, log spooled for replay');
+    }
+    return spooled;
+  }
+
+  // Replay spooled logs after a successful send, at most once every REPLAY_INTERVAL
+  private scheduleReplay(): void {
+    if (
+      this.spool?.hasPending() &&
+      Date.now() - this.lastReplayAt >= QuotientLogger.REPLAY_INTERVAL
+    ) {
+      this.replaySpool().catch((error) => logError(error as Error, 'QuotientLogger.replaySpool'));
+    }
+  }
+
+  /**
+   * Send logs persisted by the spool. Called on startup and automatically once the
+   * API is reachable again. Resolves to the number of logs sent.
+   */
+  async replaySpool(): Promise<number> {
+    if (!this.spool) {
+      return 0;
+    }
+    this.lastReplayAt = Date.now();
+
+    return this.spool.replay(async (record: SpoolRecord) => {
+      const feedbackResource = this.feedbackResource;
+      let send: () => Promise<any>;
+      // Payloads keep the id and createdAt generated when they were first made
+      if (record.kind === 'log') {
+        send = () => this.logsResource.create(record.payload);
+      } else if (record.kind === 'feedback' && feedbackResource) {
+        send = () => feedbackResource.create(record.payload.logId, record.payload.feedback);
+      } else {
+        return;
       }
+      try {
+        await send();
+      } catch (error) {
+        if (isRetryableError(error)) {
+          // Still unreachable; stop and keep the rest for later
+          throw error;
+        }
+        logError(error as Error, `QuotientLogger.replaySpool: discarding rejected ${record.kind}`);
+      }
+    });
+  }
 
-      // If metadata exists, check if it's an object
-      if ('metadata' in obj && obj.metadata !== null && typeof obj.metadata !== 'object') {
-        return {
-          valid: false,
-          error: `The 'metadata' property must be an object, found ${typeof obj.metadata}`,
-        };
+  /**
+   * Add a hook that can transform a log, or drop it by returning null, before it is
+   * sent. Hooks run in the order they were added, after any passed to init(). A hook
+   * that throws is skipped. Returns a function that removes the hook.
+   */
+  beforeSend(hook: BeforeSendHook): () => void {
+    this.hooks.push(hook);
+    return () => {
+      this.hooks = this.hooks.filter((registered) => registered !== hook);
+    };
+  }
+
+  private async runBeforeSend(log: CreateLogParams): Promise<CreateLogParams | null> {
+    const hooks = [...this.configHooks, ...this.hooks];
+    for (let i = 0; i < hooks.length; i++) {
+      // Hooks may edit the log in place, so each gets a deep copy that is only kept if it
+      // succeeds; nested documents and history stay the caller's
+      let draft = log;
+      try {
+        draft = structuredClone(log);
+        const result = await hooks[i](draft);
+        if (result === null) {
+          return null;
+        }
+        if (result !== undefined && typeof result !== 'object') {
+          throw new TypeError(`beforeSend hook returned ${typeof result}, expected a log or null`);
+        }
+        log = result ?? draft;
+      } catch (error) {
+        // Keep the log as the previous hook left it
+        logError(error as Error, `QuotientLogger.beforeSend[${i}]`);
       }
+    }
+    return log;
+  }
 
-      return { valid: true };
-    } catch (error) {
-      return { valid: false, error: 'Unexpected error validating document' };
+  /**
+   * Create a logger scoped to part of an application. It sends through this logger,
+   * using its current configuration, with its own tags merged in and its own default
+   * detections. Children don't affect this logger or each other.
+   */
+  child(options: ChildLoggerOptions = {}): ChildLogger {
+    return new ChildLogger(this, options);
+  }
+
+  /**
+   * Start a session that groups multi-turn logs. Each log made through it gets the
+   * sessionId, the next turnIndex and the message history of the previous turns.
+   */
+  session(sessionId: string, options: SessionOptions = {}): LogSession {
+    return new LogSession((params) => this._internalLog(params), sessionId, options);
+  }
+
+  /**
+   * Send all queued logs. Resolves immediately when batching is disabled.
+   */
+  async flush(): Promise<void> {
+    await this.queue?.flush();
+  }
+
+  /**
+   * Send all queued logs and stop the background queue.
+   */
+  async shutdown(): Promise<void> {
+    if (this.queue) {
+      await this.queue.shutdown();
+      this.queue = null;
     }
   }
 
-  // Validate document format
-  private validateDocuments(documents: (string | LogDocument)[]): boolean {
-    if (!documents || documents.length === 0) {
-      return true;
-    }
-
-    for (let i = 0; i < documents.length; i++) {
-      const doc = documents[i];
-      if (typeof doc === 'string') {
-        continue;
-      } else if (typeof doc === 'object' && doc !== null) {
-        const validation = this.isValidLogDocument(doc);
-        if (!validation.valid) {
-          logError(
-            new ValidationError(
-              `Invalid document format at index ${i}: ${validation.error}. ` +
-                "Documents must be either strings or JSON objects with a 'pageContent' string property and an optional 'metadata' object. " +
-                "To fix this, ensure each document follows the format: { pageContent: 'your text content', metadata?: { key: 'value' } }"
-            )
-          );
-          return false;
+  /**
+   * Counts of queued, sent and dropped logs when batching is enabled.
+   */
+  getQueueStats(): QueueStats {
+    return this.queue ? this.queue.stats : { queued: 0, sent: 0, spooled: 0, dropped: 0 };
+  }
+
+  private validateSamplingRules(rules: SamplingRule[]): ValidationError | null {
+    if (!Array.isArray(rules)) {
+      return new ValidationError('samplingRules must be an array', {
+        code: 'invalid_type',
+        field: 'samplingRules',
+      });
+    }
+    for (let i = 0; i < rules.length; i++) {
+      for (const rate of ['sampleRate', 'detectionSampleRate'] as const) {
+        const value = rules[i][rate];
+        if (value !== undefined && !(typeof value === 'number' && value >= 0 && value <= 1)) {
+          return new ValidationError(`samplingRules[${i}].${rate} must be between 0.0 and 1.0`, {
+            code: 'out_of_range',
+            field: `samplingRules[${i}].${rate}`,
+          });
         }
-      } else {
-        logError(
-          new ValidationError(
-            `Invalid document type at index ${i}. Found ${typeof doc}, but documents must be either strings or JSON objects with a 'pageContent' property. ` +
-              "To fix this, provide documents as either simple strings or properly formatted objects: { pageContent: 'your text content' }"
-          )
+      }
+    }
+    return null;
+  }
+
+  private validateRedaction(config: RedactionConfig): ValidationError | null {
+    if (config.strategy !== undefined && !['mask', 'hash', 'drop'].includes(config.strategy)) {
+      return new ValidationError("redaction.strategy must be 'mask', 'hash' or 'drop'", {
+        code: 'invalid_type',
+        field: 'redaction.strategy',
+      });
+    }
+    if (
+      config.hashKey !== undefined &&
+      !(
+        (typeof config.hashKey === 'string' || Buffer.isBuffer(config.hashKey)) &&
+        config.hashKey.length > 0
+      )
+    ) {
+      return new ValidationError('redaction.hashKey must be a non-empty string or Buffer', {
+        code: 'invalid_type',
+        field: 'redaction.hashKey',
+      });
+    }
+    const redactors = config.redactors ?? [];
+    for (let i = 0; i < redactors.length; i++) {
+      const redactor = redactors[i];
+      const valid =
+        typeof redactor === 'string'
+          ? redactor in BUILTIN_REDACTORS
+          : typeof redactor?.name === 'string' &&
+            (redactor.pattern instanceof RegExp || typeof redactor.detect === 'function');
+      if (!valid) {
+        return new ValidationError(
+          `redaction.redactors[${i}] must be one of ${Object.keys(BUILTIN_REDACTORS).join(', ')} ` +
+            'or an object with a name and a pattern or detect function',
+          { code: 'invalid_type', field: `redaction.redactors[${i}]` }
         );
-        return false;
       }
     }
-    return true;
+    return null;
+  }
+
+  private validateLimits(limits: PayloadLimits): ValidationError | null {
+    for (const name of [
+      'maxDocumentLength',
+      'maxDocuments',
+      'maxMessageHistory',
+      'maxPayloadBytes',
+    ] as const) {
+      const value = limits[name];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        return new ValidationError(`limits.${name} must be a non-negative integer`, {
+          code: 'out_of_range',
+          field: `limits.${name}`,
+        });
+      }
+    }
+    if (limits.truncate !== undefined && !['head', 'tail'].includes(limits.truncate)) {
+      return new ValidationError("limits.truncate must be 'head' or 'tail'", {
+        code: 'invalid_type',
+        field: 'limits.truncate',
+      });
+    }
+    return null;
+  }
+
+  private validatePrices(prices: PriceTable): ValidationError | null {
+    for (const [model, price] of Object.entries(prices ?? {})) {
+      for (const name of ['promptPerMillion', 'completionPerMillion'] as const) {
+        const value = price?.[name];
+        if (typeof value !== 'number' || !(value >= 0)) {
+          return new ValidationError(`prices['${model}'].${name} must be a non-negative number`, {
+            code: 'invalid_type',
+            field: `prices.${model}.${name}`,
+          });
+        }
+      }
+    }
+    return null;
+  }
+
+  // Sample randomly, or deterministically when there is a sampling key
+  private shouldSample(key?: string, sampleRate: number = this.sampleRate): boolean {
+    const value = key === undefined ? Math.random() : hashToUnit(key);
+    return value < sampleRate;
+  }
+
+  // The sampling key for a log: its sampleKey, else one derived with sampleBy
+  private getSampleKey(
+    params: Omit<LogEntry, 'appName' | 'environment'>,
+    tags: Record<string, any>
+  ): string | undefined {
+    let key: unknown = params.sampleKey;
+    if (key === undefined || key === null) {
+      if (typeof this.sampleBy === 'function') {
+        try {
+          key = this.sampleBy({ ...params, tags });
+        } catch (error) {
+          // Sample the log at random rather than failing it
+          logError(error as Error, 'QuotientLogger.sampleBy');
+          key = undefined;
+        }
+      } else if (typeof this.sampleBy === 'string') {
+        key = tags[this.sampleBy];
+      }
+    }
+    return key === undefined || key === null || key === '' ? undefined : String(key);
+  }
+
+  // Type guard function to check if an object is a valid LogDocument
+  private isValidLogDocument(obj: any): ReturnType<typeof isValidLogDocument> {
+    return isValidLogDocument(obj);
+  }
+
+  // Validate document format
+  private validateDocuments(documents: (string | LogDocument)[]): {
+    valid: boolean;
+    error?: ValidationError;
+  } {
+    return validateDocuments(documents);
+  }
+
+  // Report a log that failed validation; throws in strict mode
+  private invalid(error: ValidationError, detectionsRequested: DetectionType[] = []): LogResult {
+    if (this.strict) {
+      throw error;
+    }
+    logError(error);
+    return { status: 'invalid', errors: [error.message], detectionsRequested };
   }
 
   // log a message
-  async _internalLog(params: Omit<LogEntry, 'appName' | 'environment'>): Promise<any> {
+  async _internalLog(
+    params: Omit<LogEntry, 'appName' | 'environment'>,
+    scope: ChildLoggerOptions = {}
+  ): Promise<LogResult> {
     if (!this.configured) {
-      logError(new Error('Logger is not configured. Please call init() before logging.'));
-      return null;
+      return this.invalid(
+        new ValidationError('Logger is not configured. Please call init() before logging.', {
+          code: 'not_configured',
+        })
+      );
     }
 
     if (!this.appName || !this.environment) {
-      logError(
-        new Error('Logger is not properly configured. appName and environment must be set.')
+      return this.invalid(
+        new ValidationError(
+          'Logger is not properly configured. appName and environment must be set.',
+          { code: 'not_configured', field: this.appName ? 'environment' : 'appName' }
+        )
       );
-      return null;
     }
 
     // Check for deprecated vs new detection parameter usage
@@ -223,21 +629,38 @@ export class QuotientLogger {
 
     // Prevent mixing deprecated and new detection parameters
     if (deprecatedDetectionParamsUsed && detectionParamsUsed) {
-      logError(
-        new Error(
+      return this.invalid(
+        new ValidationError(
           'Cannot mix deprecated parameters (hallucinationDetection, inconsistencyDetection) ' +
-            'with new detection parameters (detections, detectionSampleRate). Please use new detection parameters.'
+            'with new detection parameters (detections, detectionSampleRate). Please use new detection parameters.',
+          { code: 'conflict', field: 'detections' }
         )
       );
-      return null;
     }
 
+    // Merge default tags with those of a child logger, the active context (see
+    // QuotientAI.withContext) and any provided at log time
+    const mergedTags = {
+      ...this.tags,
+      ...(scope.tags || {}),
+      ...getContextTags(),
+      ...(params.tags || {}),
+    };
+
+    const rule = findSamplingRule(this.samplingRules, {
+      ...params,
+      appName: this.appName,
+      environment: this.environment,
+      tags: mergedTags,
+    });
+    const sampleRate = rule?.sampleRate ?? this.sampleRate;
+
     let detections: DetectionType[];
     let detectionSampleRate: number;
 
     // Handle deprecated parameters (with deprecation warnings)
     if (deprecatedDetectionParamsUsed) {
-      console.warn(
+      diagnostics.warn(
         'Deprecated parameters (hallucinationDetection, inconsistencyDetection) ' +
           'are deprecated as of 0.0.9. Please use new detection parameters (detections, detectionSampleRate) instead. Document relevancy is not available with deprecated parameters.'
       );
@@ -248,102 +671,263 @@ export class QuotientLogger {
         detections.push(DetectionType.HALLUCINATION);
       }
 
-      detectionSampleRate = this.detectionSampleRate || 0.0;
+      detectionSampleRate = scope.detectionSampleRate ?? (this.detectionSampleRate || 0.0);
 
       // For backward compatibility, require userQuery and modelOutput
       if (!params.userQuery || !params.modelOutput) {
-        logError(
-          new Error('userQuery and modelOutput are required when using deprecated parameters')
+        return this.invalid(
+          new ValidationError(
+            'userQuery and modelOutput are required when using deprecated parameters',
+            { code: 'required', field: params.userQuery ? 'modelOutput' : 'userQuery' }
+          ),
+          detections
         );
-        return null;
       }
     } else {
-      // Use new detection parameters or defaults from logger config
-      detections = params.detections !== undefined ? params.detections : this.detections;
+      // Use new detection parameters, else those of the matching sampling rule, else defaults
+      // from the child logger or logger config
+      detections = params.detections ?? rule?.detections ?? scope.detections ?? this.detections;
       detectionSampleRate =
-        params.detectionSampleRate !== undefined
-          ? params.detectionSampleRate
-          : this.detectionSampleRate;
-
-      // Validate detectionSampleRate
-      if (detectionSampleRate < 0 || detectionSampleRate > 1) {
-        logError(new Error('detectionSampleRate must be between 0 and 1'));
-        return null;
-      }
-
-      // Validate required fields based on selected detections
-      for (const detection of detections) {
-        if (detection === DetectionType.HALLUCINATION) {
-          if (!params.userQuery) {
-            logError(new Error('userQuery is required when hallucination detection is enabled'));
-            return null;
-          }
-          if (!params.modelOutput) {
-            logError(new Error('modelOutput is required when hallucination detection is enabled'));
-            return null;
-          }
-          if (!params.documents && !params.messageHistory && !params.instructions) {
-            logError(
-              new Error(
-                'At least one of documents, messageHistory, or instructions must be provided when hallucination detection is enabled'
-              )
-            );
-            return null;
-          }
-        } else if (detection === DetectionType.DOCUMENT_RELEVANCY) {
-          if (!params.userQuery) {
-            logError(
-              new Error('userQuery is required when document_relevancy detection is enabled')
-            );
-            return null;
-          }
-          if (!params.documents) {
-            logError(
-              new Error('documents must be provided when document_relevancy detection is enabled')
-            );
-            return null;
-          }
-        }
+        params.detectionSampleRate ??
+        rule?.detectionSampleRate ??
+        scope.detectionSampleRate ??
+        this.detectionSampleRate;
+
+      const error = validateDetectionRequirements(params, detections, detectionSampleRate);
+      if (error) {
+        return this.invalid(error, detections);
       }
     }
 
+    const fieldError = validateLogFields(params);
+    if (fieldError) {
+      return this.invalid(fieldError, detections);
+    }
+
     // Validate documents format
     if (params.documents) {
-      const isValid = this.validateDocuments(params.documents);
-      if (!isValid) {
-        return null;
+      const validation = this.validateDocuments(params.documents);
+      if (!validation.valid) {
+        return this.invalid(
+          validation.error ?? new ValidationError('Invalid documents', { field: 'documents' }),
+          detections
+        );
       }
     }
 
-    // Merge default tags with any tags provided at log time
-    const mergedTags = { ...this.tags, ...(params.tags || {}) };
+    const sampleKey = this.getSampleKey(params, mergedTags);
+    if (!this.shouldSample(sampleKey, sampleRate)) {
+      return { status: 'sampled_out', detectionsRequested: detections };
+    }
+
+    // With a sampling key, decide on detections here rather than leaving it to the API, so
+    // they run for the same keys every time. A key is in if its hash falls below
+    // sampleRate * detectionSampleRate, which is detectionSampleRate of the logged keys.
+    if (sampleKey !== undefined && detections.length > 0) {
+      const detect = hashToUnit(sampleKey) < sampleRate * detectionSampleRate;
+      detectionSampleRate = detect ? 1.0 : 0.0;
+      if (!detect) {
+        detections = [];
+      }
+    }
 
-    if (this.shouldSample()) {
-      // Convert DetectionType enums to strings for the resources layer
-      const detectionStrings = detections.map((detection) => detection.valueOf());
+    // Convert DetectionType enums to strings for the resources layer
+    const detectionStrings = detections.map((detection) => detection.valueOf());
 
+    let log: CreateLogParams | null = {
       // generate a random id
-      const id = uuidv4();
+      id: uuidv4(),
       // generate UTC timestamp string
-      const createdAt = new Date().toISOString();
-      await this.logsResource.create({
-        id: id,
-        createdAt: createdAt,
-        appName: this.appName,
-        environment: this.environment,
-        userQuery: params.userQuery,
-        modelOutput: params.modelOutput,
-        documents: params.documents,
-        messageHistory: params.messageHistory,
-        instructions: params.instructions,
-        tags: mergedTags,
-        // Only new detection parameters (deprecated params converted above)
-        detections: detectionStrings,
-        detectionSampleRate: detectionSampleRate,
+      createdAt: new Date().toISOString(),
+      appName: this.appName,
+      environment: this.environment,
+      userQuery: params.userQuery,
+      modelOutput: params.modelOutput,
+      documents: params.documents,
+      messageHistory: params.messageHistory,
+      instructions: params.instructions,
+      tags: mergedTags,
+      sessionId: params.sessionId,
+      conversationId: params.conversationId,
+      turnIndex: params.turnIndex,
+      model: params.model,
+      provider: params.provider,
+      promptTokens: params.promptTokens,
+      completionTokens: params.completionTokens,
+      latencyMs: params.latencyMs,
+      cost: params.cost ?? (this.prices ? computeCost(params, this.prices) : undefined),
+      // Only new detection parameters (deprecated params converted above)
+      detections: detectionStrings,
+      detectionSampleRate: detectionSampleRate,
+    };
+
+    // Hooks run before redaction so anything they add is redacted too
+    log = await this.runBeforeSend(log);
+    if (!log) {
+      return { status: 'dropped', detectionsRequested: detections };
+    }
+    detections = (log.detections ?? []) as DetectionType[];
+
+    if (this.redactor) {
+      const fired = new Set<string>();
+      try {
+        const content = this.redactor.redact(
+          {
+            userQuery: log.userQuery,
+            modelOutput: log.modelOutput,
+            documents: log.documents,
+            messageHistory: log.messageHistory,
+            instructions: log.instructions,
+          },
+          fired
+        );
+        log = { ...log, ...content };
+      } catch (error) {
+        // Never send a log that may still contain what redaction was meant to remove
+        logError(error as Error, 'QuotientLogger.redact');
+        return {
+          status: 'failed',
+          errors: [`Redaction failed: ${(error as Error).message}`],
+          detectionsRequested: detections,
+        };
+      }
+      if (fired.size > 0) {
+        log.tags = { ...log.tags, [REDACTION_TAG]: Array.from(fired).sort() };
+      }
+    }
+
+    // Truncate after redaction so a secret cut in half is still caught
+    if (this.limits) {
+      const { log: limited, truncated, fits } = truncateLog(log, this.limits);
+      log = limited;
+      if (truncated.length > 0) {
+        log.tags = { ...log.tags, [TRUNCATION_TAG]: truncated };
+      }
+      if (!fits) {
+        diagnostics.warn(
+          `Log ${log.id} is still larger than limits.maxPayloadBytes after truncation`,
+          { id: log.id, maxPayloadBytes: this.limits.maxPayloadBytes }
+        );
+      }
+    }
+
+    const sent: LogResult = { status: 'sent', id: log.id, detectionsRequested: detections };
+
+    if (this.queue) {
+      if (!this.queue.enqueue(log)) {
+        const error = new Error(
+          'Log queue is full, dropping log. Consider increasing batch.maxQueueSize.'
+        );
+        logError(error);
+        return { status: 'failed', errors: [error.message], detectionsRequested: detections };
+      }
+      return sent;
+    }
+
+    try {
+      await this.logsResource.create(log);
+    } catch (error) {
+      if (this.spoolLogs([log], error)) {
+        return sent;
+      }
+      logError(error as Error, 'QuotientLogger.log');
+      return {
+        status: 'failed',
+        errors: [(error as Error).message],
+        detectionsRequested: detections,
+      };
+    }
+    this.scheduleReplay();
+
+    return sent;
+  }
+
+  private validateFeedback(logId: string, params: FeedbackParams): ValidationError | null {
+    if (!logId || typeof logId !== 'string') {
+      return new ValidationError('Log ID is required to record feedback', {
+        code: 'required',
+        field: 'logId',
+      });
+    }
+    if (params.thumbs !== undefined && !['up', 'down'].includes(params.thumbs)) {
+      return new ValidationError("thumbs must be 'up' or 'down'", {
+        code: 'invalid_type',
+        field: 'thumbs',
+      });
+    }
+    if (params.rating !== undefined && !Number.isFinite(params.rating)) {
+      return new ValidationError('rating must be a number', {
+        code: 'invalid_type',
+        field: 'rating',
       });
+    }
+    if (params.comment !== undefined && typeof params.comment !== 'string') {
+      return new ValidationError('comment must be a string', {
+        code: 'invalid_type',
+        field: 'comment',
+      });
+    }
+    if (params.thumbs === undefined && params.rating === undefined && !params.comment) {
+      return new ValidationError('Feedback must include thumbs, a rating or a comment', {
+        code: 'required',
+        field: 'thumbs',
+      });
+    }
+    return null;
+  }
 
-      return id;
+  // record end-user feedback on a log
+  async _internalFeedback(
+    logId: string,
+    params: FeedbackParams,
+    options: RequestOptions = {}
+  ): Promise<FeedbackResult> {
+    const error = this.validateFeedback(logId, params);
+    if (error) {
+      if (this.strict) {
+        throw error;
+      }
+      logError(error);
+      return { status: 'invalid', errors: [error.message] };
+    }
+    if (!this.feedbackResource) {
+      const notConfigured = new Error('Feedback is not available for this logger.');
+      logError(notConfigured);
+      return { status: 'failed', errors: [notConfigured.message] };
+    }
+
+    const feedback = {
+      ...params,
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+    };
+    if (this.redactor && feedback.comment) {
+      try {
+        feedback.comment = this.redactor.redact(feedback.comment, new Set());
+      } catch (error) {
+        // Never send a comment that may still contain what redaction was meant to remove
+        logError(error as Error, 'QuotientLogger.redact');
+        return { status: 'failed', errors: [`Redaction failed: ${(error as Error).message}`] };
+      }
     }
+
+    try {
+      await this.feedbackResource.create(logId, feedback, options);
+    } catch (error) {
+      if (
+        this.spool &&
+        isRetryableError(error) &&
+        this.spool.append('feedback', { logId, feedback })
+      ) {
+        logError(error as Error, 'QuotientLogger: API unreachable, feedback spooled for replay');
+        return { status: 'sent', id: feedback.id };
+      }
+      logError(error as Error, 'QuotientLogger.feedback');
+      return { status: 'failed', errors: [(error as Error).message] };
+    }
+    this.scheduleReplay();
+
+    return { status: 'sent', id: feedback.id };
   }
 
   // poll for detection results using log id
@@ -398,6 +982,11 @@ export class QuotientLogger {
           await new Promise((resolve) => setTimeout(resolve, currentPollInterval));
           continue;
         }
+        // A missing log or a rejected API key won't resolve by polling again
+        if (!isRetryableError(error)) {
+          logError(error as Error, 'QuotientLogger.pollForDetections');
+          return null;
+        }
         await new Promise((resolve) => setTimeout(resolve, currentPollInterval));
       }
     }
@@ -405,15 +994,19 @@ export class QuotientLogger {
     return null;
   }
 
-  // log a message
+  // log a message; returns the log id, null if it was not sent, or undefined if sampled out
   async log(params: Omit<LogEntry, 'appName' | 'environment'>): Promise<any> {
     // Add deprecation warning
-    console.warn(
+    diagnostics.warn(
       'quotient.logger.log() is deprecated as of 0.0.9 and will be removed in a future version. ' +
         'Please use quotient.log() instead.'
     );
 
-    return this._internalLog(params);
+    const result = await this._internalLog(params);
+    if (result.status === 'sampled_out') {
+      return undefined;
+    }
+    return result.status === 'sent' ? result.id : null;
   }
 
   // poll for detection results using log id
@@ -423,7 +1016,7 @@ export class QuotientLogger {
     pollInterval: number = 2.0
   ): Promise<DetectionResults | null> {
     // Add deprecation warning
-    console.warn(
+    diagnostics.warn(
       'quotient.logger.poll_for_detection() is deprecated as of 0.0.9 and will be removed in a future version. ' +
         'Please use quotient.poll_for_detections() instead.'
     );
@@ -431,3 +1024,116 @@ export class QuotientLogger {
     return this._internalPollForDetection(logId, timeout, pollInterval);
   }
 }
+
+/**
+ * A logger scoped with its own tags and detection defaults, created with
+ * QuotientLogger.child(). Logs are sent by the parent logger.
+ */
+export class ChildLogger {
+  private parent: QuotientLogger;
+  private scope: ChildLoggerOptions;
+
+  constructor(parent: QuotientLogger, scope: ChildLoggerOptions) {
+    this.parent = parent;
+    this.scope = scope;
+  }
+
+  /**
+   * Log the model interaction with this logger's tags and detections.
+   * Returns the same LogResult as quotient.log().
+   */
+  async log(params: Omit<LogEntry, 'appName' | 'environment'>): Promise<LogResult> {
+    return this.parent._internalLog(params, this.scope);
+  }
+
+  /**
+   * Create a logger scoped further; tags are merged and detection options overridden.
+   */
+  child(options: ChildLoggerOptions = {}): ChildLogger {
+    return new ChildLogger(this.parent, {
+      tags: { ...this.scope.tags, ...options.tags },
+      detections: options.detections ?? this.scope.detections,
+      detectionSampleRate: options.detectionSampleRate ?? this.scope.detectionSampleRate,
+    });
+  }
+
+  /**
+   * Start a session that groups multi-turn logs made with this logger's scope.
+   */
+  session(sessionId: string, options: SessionOptions = {}): LogSession {
+    return new LogSession(
+      (params) => this.parent._internalLog(params, this.scope),
+      sessionId,
+      options
+    );
+  }
+
+  /**
+   * Send all logs queued by the parent logger.
+   */
+  async flush(): Promise<void> {
+    await this.parent.flush();
+  }
+}
+
+/**
+ * A multi-turn interaction, created with QuotientLogger.session(). Tracks the turn
+ * order and accumulates the user queries and model outputs of each turn as message
+ * history for the next.
+ */
+export class LogSession {
+  readonly sessionId: string;
+  private send: (params: Omit<LogEntry, 'appName' | 'environment'>) => Promise<LogResult>;
+  private conversationId?: string;
+  private history: Array<Record<string, any>>;
+  private nextTurn: number = 0;
+
+  constructor(
+    send: (params: Omit<LogEntry, 'appName' | 'environment'>) => Promise<LogResult>,
+    sessionId: string,
+    options: SessionOptions = {}
+  ) {
+    this.send = send;
+    this.sessionId = sessionId;
+    this.conversationId = options.conversationId;
+    this.history = [...(options.messageHistory || [])];
+  }
+
+  // Index of the next turn to be logged
+  get turnIndex(): number {
+    return this.nextTurn;
+  }
+
+  // Messages of the turns logged so far
+  get messageHistory(): Array<Record<string, any>> {
+    return [...this.history];
+  }
+
+  /**
+   * Log the next turn of the session. messageHistory defaults to the messages of
+   * the previous turns. Returns the same LogResult as quotient.log().
+   */
+  async log(
+    params: Omit<LogEntry, 'appName' | 'environment' | 'sessionId' | 'turnIndex'>
+  ): Promise<LogResult> {
+    // Claim the turn before anything is awaited so concurrent logs keep their order
+    const turnIndex = this.nextTurn++;
+    const messageHistory =
+      params.messageHistory ?? (this.history.length > 0 ? [...this.history] : undefined);
+
+    if (params.userQuery) {
+      this.history.push({ role: 'user', content: params.userQuery });
+    }
+    if (params.modelOutput) {
+      this.history.push({ role: 'assistant', content: params.modelOutput });
+    }
+
+    return this.send({
+      ...params,
+      messageHistory,
+      sessionId: this.sessionId,
+      conversationId: params.conversationId ?? this.conversationId,
+      turnIndex,
+    });
+  }
+}
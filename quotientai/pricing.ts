@@ -0,0 +1,35 @@
+import { ModelPrice, PriceTable } from './types';
+
+// Price of a model: an exact match, else the longest name the model starts with
+function findPrice(model: string, prices: PriceTable): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : prices[prefix];
+}
+
+/**
+ * Compute the cost in USD of a model call from its token counts. Returns undefined
+ * when the model is not in the price table or there are no token counts.
+ */
+export function computeCost(
+  usage: { model?: string; promptTokens?: number; completionTokens?: number },
+  prices: PriceTable
+): number | undefined {
+  if (!usage.model || (usage.promptTokens === undefined && usage.completionTokens === undefined)) {
+    return undefined;
+  }
+  const price = findPrice(usage.model, prices);
+  if (!price) {
+    return undefined;
+  }
+  const cost =
+    ((usage.promptTokens ?? 0) * price.promptPerMillion +
+      (usage.completionTokens ?? 0) * price.completionPerMillion) /
+    1000000;
+  // Round off floating point noise
+  return Math.round(cost * 1e10) / 1e10;
+}
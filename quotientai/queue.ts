@@ -0,0 +1,121 @@
+import { BatchConfig } from './types';
+import { logError } from './exceptions';
+import { onShutdown } from './shutdown';
+
+export const DEFAULT_MAX_BATCH_SIZE = 50;
+export const DEFAULT_FLUSH_INTERVAL = 1000;
+export const DEFAULT_MAX_QUEUE_SIZE = 1000;
+
+export interface QueueStats {
+  // Items currently waiting to be sent
+  queued: number;
+  // Items successfully sent
+  sent: number;
+  // Items that failed to send and were persisted to the spool, to be sent later
+  spooled: number;
+  // Items discarded because the queue was full or a batch failed to send
+  dropped: number;
+}
+
+// Resolved by a queue's send function: 'spooled' if the batch was persisted for later
+// rather than sent
+export type BatchOutcome = 'sent' | 'spooled' | void;
+
+/**
+ * In-process queue that sends items in batches, either when a batch fills up
+ * or every flushInterval milliseconds. Pending items are flushed automatically
+ * on process exit.
+ */
+export class LogQueue<T> {
+  private items: T[] = [];
+  private send: (batch: T[]) => Promise<BatchOutcome>;
+  private maxBatchSize: number;
+  private flushInterval: number;
+  private maxQueueSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private unregisterShutdown: () => void;
+  private sentCount = 0;
+  private spooledCount = 0;
+  private droppedCount = 0;
+
+  constructor(send: (batch: T[]) => Promise<BatchOutcome>, config: BatchConfig = {}) {
+    this.send = send;
+    this.maxBatchSize = config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.flushInterval = config.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    this.maxQueueSize = config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+
+    this.unregisterShutdown = onShutdown(() => this.flush());
+  }
+
+  get stats(): QueueStats {
+    return {
+      queued: this.items.length,
+      sent: this.sentCount,
+      spooled: this.spooledCount,
+      dropped: this.droppedCount,
+    };
+  }
+
+  /**
+   * Add an item to the queue. Returns false if the queue is full and the item was dropped.
+   */
+  enqueue(item: T): boolean {
+    if (this.items.length >= this.maxQueueSize) {
+      this.droppedCount++;
+      return false;
+    }
+
+    this.items.push(item);
+
+    if (this.items.length >= this.maxBatchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        void this.flush();
+      }, this.flushInterval);
+      // Don't keep the process alive just for the timer; pending items are flushed on exit
+      this.timer.unref();
+    }
+
+    return true;
+  }
+
+  /**
+   * Send everything currently queued. Flushes are serialized so batches go out in order.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.flushing = this.flushing.then(() => this.drain());
+    return this.flushing;
+  }
+
+  /**
+   * Flush remaining items and stop accepting automatic flushes on exit.
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    this.unregisterShutdown();
+  }
+
+  private async drain(): Promise<void> {
+    while (this.items.length > 0) {
+      const batch = this.items.splice(0, this.maxBatchSize);
+      try {
+        if ((await this.send(batch)) === 'spooled') {
+          this.spooledCount += batch.length;
+        } else {
+          this.sentCount += batch.length;
+        }
+      } catch (error) {
+        this.droppedCount += batch.length;
+        logError(error as Error, 'LogQueue.flush');
+      }
+    }
+  }
+}
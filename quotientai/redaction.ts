@@ -0,0 +1,148 @@
+import { createHmac, randomBytes } from 'crypto';
+import { BuiltinRedactor, RedactionConfig, Redactor } from './types';
+
+// Tag listing the redactors that fired for a log
+export const REDACTION_TAG = 'redacted';
+
+// Key for the 'hash' strategy when none is configured. Keyed so that short values such as
+// phone numbers can't be recovered by hashing every candidate
+const PROCESS_HASH_KEY = randomBytes(32);
+
+// Passes the Luhn checksum used by payment card numbers
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export const BUILTIN_REDACTORS: Record<BuiltinRedactor, Redactor> = {
+  // Checked before phone so card numbers aren't partly redacted as phone numbers
+  credit_card: {
+    name: 'credit_card',
+    detect: (text) =>
+      (text.match(/\b(?:\d[ -]?){12,18}\d\b/g) || []).filter((candidate) => {
+        const digits = candidate.replace(/\D/g, '');
+        return digits.length >= 13 && digits.length <= 19 && isLuhnValid(digits);
+      }),
+  },
+  api_key: {
+    name: 'api_key',
+    pattern: new RegExp(
+      [
+        // OpenAI, Anthropic, Stripe and similar prefixed keys
+        '\\b(?:sk|pk|rk)[-_](?:[A-Za-z]+[-_])?[A-Za-z0-9_-]{16,}',
+        // AWS access key ids
+        '\\bAKIA[0-9A-Z]{16}\\b',
+        // GitHub tokens
+        '\\bgh[pousr]_[A-Za-z0-9]{36,}\\b',
+        // Slack tokens
+        '\\bxox[abprs]-[A-Za-z0-9-]{10,}',
+        // Google API keys
+        '\\bAIza[0-9A-Za-z_-]{35}',
+        // Bearer tokens in pasted headers
+        '\\bBearer\\s+[A-Za-z0-9._~+/-]{20,}=*',
+      ].join('|'),
+      'g'
+    ),
+  },
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  phone: {
+    name: 'phone',
+    // International numbers with a +country code, or separated 3-3-4 national numbers,
+    // not embedded in a longer run of digit groups
+    pattern:
+      /(?<![\w+]|\d[\s.-])(?:\+\d{1,3}(?:[\s.-]?\(?\d{1,4}\)?){2,5}|(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4})(?!\w|[\s.-]\d)/g,
+  },
+};
+
+/**
+ * Replaces personal data and secrets in log fields. Strings are redacted
+ * wherever they appear, including inside document metadata and message history
+ * objects. Keeps track of which redactors fired.
+ */
+export class LogRedactor {
+  private redactors: Redactor[];
+  private strategy: 'mask' | 'hash' | 'drop';
+  private hashKey: string | Buffer;
+
+  constructor(config: RedactionConfig = {}) {
+    this.redactors = (
+      config.redactors ?? (Object.keys(BUILTIN_REDACTORS) as BuiltinRedactor[])
+    ).map((redactor) => (typeof redactor === 'string' ? BUILTIN_REDACTORS[redactor] : redactor));
+    this.strategy = config.strategy ?? 'mask';
+    this.hashKey = config.hashKey ?? PROCESS_HASH_KEY;
+  }
+
+  /**
+   * Return a redacted copy of value, adding the names of the redactors that fired to `fired`.
+   */
+  redact<T>(value: T, fired: Set<string>): T {
+    if (typeof value === 'string') {
+      return this.redactText(value, fired) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item, fired)) as T;
+    }
+    if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redact(item, fired)])
+      ) as T;
+    }
+    return value;
+  }
+
+  private redactText(text: string, fired: Set<string>): string {
+    for (const redactor of this.redactors) {
+      let matched = false;
+      const replace = (match: string) => {
+        matched = true;
+        return this.replacement(redactor.name, match);
+      };
+
+      if (redactor.pattern) {
+        const flags = redactor.pattern.flags.includes('g')
+          ? redactor.pattern.flags
+          : redactor.pattern.flags + 'g';
+        text = text.replace(new RegExp(redactor.pattern.source, flags), replace);
+      }
+      if (redactor.detect) {
+        for (const match of redactor.detect(text)) {
+          if (match && text.includes(match)) {
+            text = text.split(match).join(replace(match));
+          }
+        }
+      }
+
+      if (matched) {
+        fired.add(redactor.name);
+      }
+    }
+    return text;
+  }
+
+  private replacement(name: string, match: string): string {
+    const label = name.toUpperCase();
+    switch (this.strategy) {
+      case 'drop':
+        return '';
+      case 'hash': {
+        const digest = createHmac('sha256', this.hashKey).update(match).digest('hex');
+        return `[${label}:${digest.slice(0, 12)}]`;
+      }
+      default:
+        return `[REDACTED_${label}]`;
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { ValidationError } from '../exceptions';
+import { BaseQuotientClient } from '../client';
+import { RequestOptions } from '../retry';
+import { Feedback, FeedbackParams, FeedbackResponse } from '../types';
+
+interface FeedbackListResponse {
+  feedback: FeedbackResponse[];
+}
+
+// CamelCase interface for client-side params, will be converted to snake_case for API
+export interface CreateFeedbackParams extends FeedbackParams {
+  id?: string;
+  createdAt?: string;
+}
+
+// Convert a snake_case feedback response to camelCase
+export function toFeedback(data: FeedbackResponse): Feedback {
+  return {
+    id: data.id,
+    logId: data.log_id,
+    thumbs: data.thumbs ?? undefined,
+    rating: data.rating ?? undefined,
+    comment: data.comment ?? undefined,
+    userId: data.user_id ?? undefined,
+    tags: data.tags ?? undefined,
+    createdAt: data.created_at,
+  };
+}
+
+export class FeedbackResource {
+  protected client: BaseQuotientClient;
+
+  constructor(client: BaseQuotientClient) {
+    this.client = client;
+  }
+
+  // Record feedback on a log
+  // throws the matching QuotientAIError subclass if the API call fails
+  async create(
+    logId: string,
+    params: CreateFeedbackParams,
+    options: RequestOptions = {}
+  ): Promise<any> {
+    if (!logId) {
+      throw new ValidationError('Log ID is required to record feedback', {
+        code: 'required',
+        field: 'logId',
+      });
+    }
+    // A client-generated id lets the server deduplicate, so network failures are safe to retry
+    const response = await this.client.post(
+      `/logs/${logId}/feedback`,
+      this.toApiParams(params),
+      undefined,
+      { idempotent: params.id !== undefined, ...options }
+    );
+    return response;
+  }
+
+  // Change feedback already recorded on a log
+  // throws the matching QuotientAIError subclass if the API call fails
+  async update(
+    logId: string,
+    feedbackId: string,
+    params: FeedbackParams,
+    options: RequestOptions = {}
+  ): Promise<any> {
+    const body = Object.fromEntries(
+      Object.entries(this.toApiParams(params)).filter(([_, v]) => v !== undefined)
+    );
+    const response = await this.client.patch(
+      `/logs/${logId}/feedback/${feedbackId}`,
+      body,
+      undefined,
+      options
+    );
+    return response;
+  }
+
+  // List the feedback recorded on a log
+  // throws the matching QuotientAIError subclass if the API call fails
+  async list(logId: string, options: RequestOptions = {}): Promise<Feedback[]> {
+    const response = (await this.client.get(
+      `/logs/${logId}/feedback`,
+      undefined,
+      undefined,
+      options
+    )) as FeedbackListResponse;
+    if (!response || !Array.isArray(response.feedback)) {
+      return [];
+    }
+    return response.feedback.map(toFeedback);
+  }
+
+  // Convert camelCase params to the snake_case body expected by the API
+  private toApiParams(params: CreateFeedbackParams): Record<string, any> {
+    return {
+      id: params.id,
+      created_at: params.createdAt,
+      thumbs: params.thumbs,
+      rating: params.rating,
+      comment: params.comment,
+      user_id: params.userId,
+      tags: params.tags,
+    };
+  }
+}
@@ -1,5 +1,12 @@
-import { logError } from '../exceptions';
+import * as fs from 'fs';
+import { APIStatusError, ConflictError, QuotientAIError, ValidationError } from '../exceptions';
 import { BaseQuotientClient } from '../client';
+import { diagnostics } from '../diagnostics';
+import { ExportRowKind, RowWriter, exportColumns, flattenLog } from '../export';
+import { ImportField, ImportRecord, mapRecord, readRecords } from '../import';
+import { RequestOptions, sleep } from '../retry';
+import { validateLogEntry } from '../validation';
+import { toFeedback } from './feedback';
 import {
   LogDocument,
   DetectionResultsResponse,
@@ -16,6 +23,9 @@ import {
   DocumentEvaluationResponse,
   MessageHistoryEvaluationResponse,
   InstructionEvaluationResponse,
+  DetectionType,
+  LOG_STATUS,
+  LogEntry,
 } from '../types';
 
 // Snake case interface for API responses
@@ -31,6 +41,21 @@ interface LogResponse {
   message_history: any[] | null;
   instructions: string[] | null;
   tags: Record<string, any>;
+  session_id?: string | null;
+  conversation_id?: string | null;
+  turn_index?: number | null;
+  model?: string | null;
+  provider?: string | null;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  latency_ms?: number | null;
+  cost?: number | null;
+  detections?: string[] | null;
+  status?: string | null;
+  has_hallucination?: boolean | null;
+  has_inconsistency?: boolean | null;
+  doc_relevancy_average?: number | null;
+  updated_at?: string | null;
   created_at: string;
 }
 
@@ -38,8 +63,12 @@ interface LogsResponse {
   logs: LogResponse[];
 }
 
+interface SingleLogResponse {
+  log: LogResponse;
+}
+
 // CamelCase interface for client-side params, will be converted to snake_case for API
-interface CreateLogParams {
+export interface CreateLogParams {
   id?: string;
   createdAt?: string;
   appName: string;
@@ -51,21 +80,124 @@ interface CreateLogParams {
   messageHistory?: any[] | null;
   instructions?: string[] | null;
   tags?: Record<string, any>;
+  sessionId?: string;
+  conversationId?: string;
+  turnIndex?: number;
+  model?: string;
+  provider?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  latencyMs?: number;
+  cost?: number;
   // Only new detection parameters (deprecated params converted before reaching here)
   detections?: string[];
   detectionSampleRate?: number;
 }
 
-// CamelCase interface for client-side params, will be converted to snake_case for API
-interface ListLogsParams {
+// Filters shared by list(), iterate() and deleteWhere()
+export interface LogFilter {
   appName?: string;
   environment?: string;
   startDate?: Date;
   endDate?: Date;
+  sessionId?: string;
+  conversationId?: string;
+  // Only logs with all of these tag values, e.g. { user_id: '123' }
+  tags?: Record<string, any>;
+  // Only logs in one of these states
+  status?: LOG_STATUS | LOG_STATUS[];
+  // Only logs whose hallucination detection found (true) or did not find (false) one
+  hasHallucination?: boolean;
+  // Bounds on the average relevancy of a log's documents, from 0 to 1
+  minDocRelevancyAverage?: number;
+  maxDocRelevancyAverage?: number;
+  // Only logs for which all of these detections were requested
+  detections?: DetectionType[];
+  // Text to look for in userQuery and modelOutput
+  search?: string;
+}
+
+interface ListLogsParams extends LogFilter {
   limit?: number;
   offset?: number;
 }
 
+export interface IterateLogsParams extends Omit<ListLogsParams, 'limit' | 'offset'> {
+  // Logs requested per page (default: 100)
+  pageSize?: number;
+  // Pages requested at once (default: 1)
+  concurrency?: number;
+  // Resume where a previous iteration stopped; see LogIterator.cursor
+  cursor?: string;
+}
+
+export type DeleteLogsFilter = LogFilter;
+
+// Body params of which deleteWhere() needs at least one
+const DELETE_SCOPE_PARAMS = [
+  'app_name',
+  'environment',
+  'start_date',
+  'end_date',
+  'session_id',
+  'conversation_id',
+  'tags',
+];
+
+export interface ImportFileOptions {
+  // File format (default: 'csv' for .csv files, otherwise 'jsonl')
+  format?: 'jsonl' | 'csv';
+  // Column or key to read each field from, e.g. { userQuery: 'question', tags: 'meta' };
+  // JSONL keys may be dotted paths. Unmapped fields are read from a column of the same name
+  mapping?: Partial<Record<ImportField, string>>;
+  // Used for rows without an app name or environment of their own
+  appName?: string;
+  environment?: string;
+  // Logs uploaded per request (default: 100)
+  batchSize?: number;
+  // Upper bound on upload requests per second (default: 5)
+  requestsPerSecond?: number;
+  // Where rejected rows are written as JSONL (default: `${path}.rejected.jsonl`)
+  reportPath?: string;
+}
+
+export interface ImportResult {
+  // Logs uploaded, including those the API already had
+  imported: number;
+  // Rows that failed to parse, validate or upload
+  rejected: number;
+  // Report of rejected rows, or null if none were rejected
+  reportPath: string | null;
+}
+
+export interface ExportLogsOptions {
+  // Stream the rows are written to, e.g. fs.createWriteStream('logs.csv'); it is left open
+  output: NodeJS.WritableStream;
+  // Which logs to export (default: all)
+  filter?: LogFilter;
+  // Output format (default: 'jsonl')
+  format?: 'jsonl' | 'csv';
+  // Fetch each log's detection results and summarise them in its row (default: false)
+  includeDetections?: boolean;
+  // One row per log (default), per evaluated sentence, or per document. Sentence and
+  // document rows come from the detection results, so they need includeDetections
+  rows?: ExportRowKind;
+  // Logs requested per page (default: 100)
+  pageSize?: number;
+}
+
+export interface ExportResult {
+  // Logs exported
+  logs: number;
+  // Rows written
+  rows: number;
+}
+
+const DEFAULT_IMPORT_BATCH_SIZE = 100;
+const DEFAULT_IMPORT_REQUESTS_PER_SECOND = 5;
+// Bad request, conflict, payload too large and unprocessable entity
+const ROW_ERROR_STATUSES = new Set([400, 409, 413, 422]);
+
 export class Log {
   id: string;
   appName: string;
@@ -78,6 +210,23 @@ export class Log {
   messageHistory: any[] | null;
   instructions: string[] | null;
   tags: Record<string, any>;
+  sessionId?: string;
+  conversationId?: string;
+  turnIndex?: number;
+  model?: string;
+  provider?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  latencyMs?: number;
+  cost?: number;
+  // Detections requested for the log, and where they stand
+  detections?: DetectionType[];
+  status?: LOG_STATUS;
+  // Detection outcomes; null until the detection has completed or when it was not requested
+  hasHallucination: boolean | null;
+  hasInconsistency: boolean | null;
+  docRelevancyAverage: number | null;
+  updatedAt?: Date;
   createdAt: Date;
 
   constructor(data: LogResponse) {
@@ -106,6 +255,21 @@ export class Log {
     this.messageHistory = data.message_history;
     this.instructions = data.instructions;
     this.tags = data.tags;
+    this.sessionId = data.session_id ?? undefined;
+    this.conversationId = data.conversation_id ?? undefined;
+    this.turnIndex = data.turn_index ?? undefined;
+    this.model = data.model ?? undefined;
+    this.provider = data.provider ?? undefined;
+    this.promptTokens = data.prompt_tokens ?? undefined;
+    this.completionTokens = data.completion_tokens ?? undefined;
+    this.latencyMs = data.latency_ms ?? undefined;
+    this.cost = data.cost ?? undefined;
+    this.detections = (data.detections ?? undefined) as DetectionType[] | undefined;
+    this.status = (data.status ?? undefined) as LOG_STATUS | undefined;
+    this.hasHallucination = data.has_hallucination ?? null;
+    this.hasInconsistency = data.has_inconsistency ?? null;
+    this.docRelevancyAverage = data.doc_relevancy_average ?? null;
+    this.updatedAt = data.updated_at ? new Date(data.updated_at) : undefined;
     this.createdAt = new Date(data.created_at);
   }
 
@@ -114,110 +278,647 @@ export class Log {
   }
 }
 
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Pages through logs as they are iterated. `cursor` marks the position after the
+ * last log yielded; pass it to LogsResource.iterate() to resume from there.
+ */
+export class LogIterator implements AsyncIterable<Log> {
+  private fetchPage: (offset: number, limit: number) => Promise<Log[]>;
+  private pageSize: number;
+  private concurrency: number;
+  private offset: number;
+
+  constructor(
+    fetchPage: (offset: number, limit: number) => Promise<Log[]>,
+    pageSize: number,
+    concurrency: number,
+    offset: number
+  ) {
+    this.fetchPage = fetchPage;
+    this.pageSize = pageSize;
+    this.concurrency = concurrency;
+    this.offset = offset;
+  }
+
+  get cursor(): string {
+    return Buffer.from(JSON.stringify({ offset: this.offset })).toString('base64');
+  }
+
+  // Offset encoded in a cursor from a previous iteration
+  static decodeCursor(cursor: string): number {
+    let offset: unknown;
+    try {
+      offset = JSON.parse(Buffer.from(cursor, 'base64').toString('utf8')).offset;
+    } catch {
+      offset = undefined;
+    }
+    if (!Number.isInteger(offset) || (offset as number) < 0) {
+      throw new ValidationError('cursor is not a valid log iterator cursor', {
+        code: 'invalid_type',
+        field: 'cursor',
+      });
+    }
+    return offset as number;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Log> {
+    // pageSize is a hint: the server may return fewer logs, so only an empty page ends
+    // the results. Pages are requested ahead, up to concurrency at a time, at the
+    // offsets they would start at if each page were as long as the last one; if a page
+    // comes back shorter or longer, the requests made after it are discarded.
+    let pending: { offset: number; request: Promise<Log[]> }[] = [];
+    let step = this.pageSize;
+
+    for (;;) {
+      if (pending.length > 0 && pending[0].offset !== this.offset) {
+        pending = [];
+      }
+      let nextOffset = pending.length > 0 ? pending[pending.length - 1].offset + step : this.offset;
+      while (pending.length < this.concurrency) {
+        const request = this.fetchPage(nextOffset, this.pageSize);
+        // Discarded pages, and pages past the end, are never awaited
+        request.catch(() => undefined);
+        pending.push({ offset: nextOffset, request });
+        nextOffset += step;
+      }
+
+      const page = await pending.shift()!.request;
+      if (page.length === 0) {
+        return;
+      }
+      step = page.length;
+      for (const log of page) {
+        this.offset++;
+        yield log;
+      }
+    }
+  }
+}
+
 export class LogsResource {
   protected client: BaseQuotientClient;
+  // Set once the API has answered a batch request with 404 or 405
+  private batchUnsupported = false;
 
   constructor(client: BaseQuotientClient) {
     this.client = client;
   }
 
   // Create a log
-  async create(params: CreateLogParams): Promise<any> {
-    try {
-      // Convert document objects with pageContent to page_content format for API
-      const convertedDocuments =
-        params.documents?.map((doc) => {
-          if (typeof doc === 'string') {
-            return doc;
-          } else if (doc && typeof doc === 'object' && 'pageContent' in doc) {
-            const { pageContent, metadata } = doc;
-            return {
-              page_content: pageContent,
-              metadata,
-            };
+  // throws the matching QuotientAIError subclass if the API call fails
+  async create(params: CreateLogParams, options: RequestOptions = {}): Promise<any> {
+    // A client-generated id lets the server deduplicate, so network failures are safe to retry
+    const response = await this.client.post('/logs', this.toApiParams(params), undefined, {
+      idempotent: params.id !== undefined,
+      ...options,
+    });
+    return response;
+  }
+
+  // Create several logs in one request, or one request per log if the API has no batch
+  // endpoint
+  // throws the matching QuotientAIError subclass if the API call fails
+  async createBatch(logs: CreateLogParams[], options: RequestOptions = {}): Promise<any> {
+    if (!this.batchUnsupported) {
+      try {
+        const response = await this.client.post(
+          '/logs/batch',
+          { logs: logs.map((params) => this.toApiParams(params)) },
+          undefined,
+          { idempotent: logs.every((params) => params.id !== undefined), ...options }
+        );
+        return response;
+      } catch (error) {
+        if (!(error instanceof APIStatusError && [404, 405].includes(error.status))) {
+          throw error;
+        }
+        this.batchUnsupported = true;
+        diagnostics.warn('The API has no batch endpoint for logs; sending logs one at a time');
+      }
+    }
+
+    const responses = [];
+    for (const params of logs) {
+      responses.push(await this.create(params, options));
+    }
+    return responses;
+  }
+
+  /**
+   * Export the logs matching a filter as a flat table, one row per log or per evaluated
+   * sentence or document, for analysis outside of Quotient
+   * @param options Where to write, which logs, the format and the kind of rows
+   * @returns Promise resolving to the number of logs exported and rows written
+   * @throws ValidationError if the options are invalid, or the matching QuotientAIError
+   * subclass if an API call fails
+   */
+  async export(options: ExportLogsOptions): Promise<ExportResult> {
+    const format = options?.format ?? 'jsonl';
+    const kind = options?.rows ?? 'log';
+    const includeDetections = options?.includeDetections ?? false;
+    if (!options?.output) {
+      throw new ValidationError('output is required', { code: 'required', field: 'output' });
+    }
+    if (format !== 'jsonl' && format !== 'csv') {
+      throw new ValidationError("format must be 'jsonl' or 'csv'", {
+        code: 'invalid_type',
+        field: 'format',
+      });
+    }
+    if (!['log', 'sentence', 'document'].includes(kind)) {
+      throw new ValidationError("rows must be 'log', 'sentence' or 'document'", {
+        code: 'invalid_type',
+        field: 'rows',
+      });
+    }
+    if (kind !== 'log' && !includeDetections) {
+      throw new ValidationError(`${kind} rows require includeDetections`, {
+        code: 'conflict',
+        field: 'includeDetections',
+      });
+    }
+
+    const logs = this.iterate({ ...options.filter, pageSize: options.pageSize });
+    const writer = new RowWriter(options.output, format, exportColumns(kind, includeDetections));
+    const result: ExportResult = { logs: 0, rows: 0 };
+    await writer.start();
+    for await (const log of logs) {
+      const detections = includeDetections ? await this.getDetections(log.id) : undefined;
+      for (const row of flattenLog(log, detections, kind)) {
+        await writer.writeRow(row);
+        result.rows++;
+      }
+      result.logs++;
+    }
+    return result;
+  }
+
+  /**
+   * Import historical logs from a JSONL or CSV file, keeping their ids and timestamps.
+   * The file is read as a stream, so it can be larger than memory. Rows are checked
+   * with the same rules as logger.log(), and rows that fail to parse, validate or
+   * upload are written to a report instead of stopping the import. Rows without an id
+   * get one derived from their contents, so an interrupted import can be run again.
+   * @param filePath Path of the file to import
+   * @param options Format, column mapping, defaults and upload pacing
+   * @returns Promise resolving to the number of imported and rejected rows
+   * @throws ValidationError if the options are invalid or the file doesn't exist, or the
+   * matching QuotientAIError subclass if an upload fails in a way that is not specific
+   * to its rows, e.g. an authentication or connection error
+   */
+  async importFile(filePath: string, options: ImportFileOptions = {}): Promise<ImportResult> {
+    const format = options.format ?? (filePath.toLowerCase().endsWith('.csv') ? 'csv' : 'jsonl');
+    const batchSize = options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE;
+    const requestsPerSecond = options.requestsPerSecond ?? DEFAULT_IMPORT_REQUESTS_PER_SECOND;
+    if (format !== 'jsonl' && format !== 'csv') {
+      throw new ValidationError("format must be 'jsonl' or 'csv'", {
+        code: 'invalid_type',
+        field: 'format',
+      });
+    }
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new ValidationError('batchSize must be a positive integer', {
+        code: 'out_of_range',
+        field: 'batchSize',
+      });
+    }
+    if (!(typeof requestsPerSecond === 'number' && requestsPerSecond > 0)) {
+      throw new ValidationError('requestsPerSecond must be a positive number', {
+        code: 'out_of_range',
+        field: 'requestsPerSecond',
+      });
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new ValidationError(`File not found: ${filePath}`, {
+        code: 'required',
+        field: 'path',
+      });
+    }
+
+    const reportPath = options.reportPath ?? `${filePath}.rejected.jsonl`;
+    const defaults = { appName: options.appName, environment: options.environment };
+    const result: ImportResult = { imported: 0, rejected: 0, reportPath: null };
+    let report: fs.WriteStream | null = null;
+    const reject = (record: ImportRecord, error: Error) => {
+      if (!report) {
+        report = fs.createWriteStream(reportPath, { encoding: 'utf8' });
+        result.reportPath = reportPath;
+      }
+      report.write(
+        JSON.stringify({
+          row: record.row,
+          error: error.message,
+          code: error instanceof ValidationError ? error.code : undefined,
+          field: error instanceof ValidationError ? error.field : undefined,
+          data: record.data ?? record.raw,
+        }) + '\n'
+      );
+      result.rejected++;
+    };
+
+    // Uploads are spaced so that at most requestsPerSecond are made
+    const interval = 1000 / requestsPerSecond;
+    let lastUpload = -Infinity;
+    const pace = async () => {
+      const wait = lastUpload + interval - Date.now();
+      if (wait > 0) {
+        await sleep(wait);
+      }
+      lastUpload = Date.now();
+    };
+    // The API refused the rows themselves; anything else would fail for every request
+    const isRowError = (error: unknown) =>
+      error instanceof APIStatusError && ROW_ERROR_STATUSES.has(error.status);
+
+    let batch: { record: ImportRecord; log: CreateLogParams }[] = [];
+    const upload = async () => {
+      const uploading = batch;
+      batch = [];
+      await pace();
+      try {
+        await this.createBatch(uploading.map(({ log }) => log));
+        result.imported += uploading.length;
+        return;
+      } catch (error) {
+        if (!isRowError(error)) {
+          throw error;
+        }
+      }
+
+      // Send the rows of a refused batch one by one to find the ones at fault. Their
+      // ids let the server deduplicate any that were created before the batch failed.
+      for (const { record, log } of uploading) {
+        await pace();
+        try {
+          await this.create(log);
+          result.imported++;
+        } catch (error) {
+          if (error instanceof ConflictError) {
+            // The server already has a log with this id, e.g. from an earlier run
+            result.imported++;
+            continue;
           }
-          return doc;
-        }) || [];
-
-      // Convert camelCase params to snake_case for API
-      const apiParams = {
-        id: params.id,
-        created_at: params.createdAt,
-        app_name: params.appName,
-        environment: params.environment,
-        user_query: params.userQuery,
-        model_output: params.modelOutput,
-        documents: convertedDocuments,
-        message_history: params.messageHistory,
-        instructions: params.instructions,
-        tags: params.tags,
-        // Only new detection parameters (deprecated params converted before reaching here)
-        detections: params.detections,
-        detection_sample_rate: params.detectionSampleRate,
-      };
+          if (!isRowError(error)) {
+            throw error;
+          }
+          reject(record, error as Error);
+        }
+      }
+    };
 
-      const response = await this.client.post('/logs', apiParams);
-      return response;
-    } catch (error) {
-      logError(error as Error, 'LogsResource.create');
-      throw error;
+    try {
+      for await (const record of readRecords(filePath, format)) {
+        if (record.error) {
+          reject(record, record.error);
+          continue;
+        }
+        let entry: LogEntry;
+        try {
+          entry = mapRecord(record, options.mapping ?? {}, defaults);
+        } catch (error) {
+          reject(record, error as Error);
+          continue;
+        }
+        const error = this.validateImportEntry(entry);
+        if (error) {
+          reject(record, error);
+          continue;
+        }
+
+        batch.push({
+          record,
+          log: {
+            ...entry,
+            createdAt: entry.createdAt as string | undefined,
+            detections: entry.detections ?? [],
+            detectionSampleRate: entry.detectionSampleRate ?? 0,
+          },
+        });
+        if (batch.length >= batchSize) {
+          await upload();
+        }
+      }
+      if (batch.length > 0) {
+        await upload();
+      }
+    } finally {
+      // Assigned in reject(), which the compiler doesn't follow
+      const stream = report as fs.WriteStream | null;
+      if (stream) {
+        await new Promise<void>((resolve) => stream.end(resolve));
+      }
+    }
+    return result;
+  }
+
+  // Check an imported log against the rules applied to logs made by the logger
+  private validateImportEntry(entry: LogEntry): ValidationError | null {
+    for (const field of ['appName', 'environment'] as const) {
+      if (!entry[field] || typeof entry[field] !== 'string') {
+        return new ValidationError(`${field} is required`, { code: 'required', field });
+      }
     }
+    const known = Object.values(DetectionType) as string[];
+    const unknown = (entry.detections ?? []).find((detection) => !known.includes(detection));
+    if (unknown !== undefined) {
+      return new ValidationError(`Unknown detection '${unknown}'`, {
+        code: 'invalid_type',
+        field: 'detections',
+      });
+    }
+    return validateLogEntry(entry);
+  }
+
+  // Convert camelCase params to the snake_case body expected by the API
+  private toApiParams(params: CreateLogParams): Record<string, any> {
+    // Convert document objects with pageContent to page_content format for API
+    const convertedDocuments =
+      params.documents?.map((doc) => {
+        if (typeof doc === 'string') {
+          return doc;
+        } else if (doc && typeof doc === 'object' && 'pageContent' in doc) {
+          const { pageContent, metadata } = doc;
+          return {
+            page_content: pageContent,
+            metadata,
+          };
+        }
+        return doc;
+      }) || [];
+
+    return {
+      id: params.id,
+      created_at: params.createdAt,
+      app_name: params.appName,
+      environment: params.environment,
+      user_query: params.userQuery,
+      model_output: params.modelOutput,
+      documents: convertedDocuments,
+      message_history: params.messageHistory,
+      instructions: params.instructions,
+      tags: params.tags,
+      session_id: params.sessionId,
+      conversation_id: params.conversationId,
+      turn_index: params.turnIndex,
+      model: params.model,
+      provider: params.provider,
+      prompt_tokens: params.promptTokens,
+      completion_tokens: params.completionTokens,
+      latency_ms: params.latencyMs,
+      cost: params.cost,
+      // Only new detection parameters (deprecated params converted before reaching here)
+      detections: params.detections,
+      detection_sample_rate: params.detectionSampleRate,
+    };
   }
 
   // List logs
-  async list(params: ListLogsParams = {}): Promise<Log[]> {
+  // throws the matching QuotientAIError subclass if the API call fails
+  async list(params: ListLogsParams = {}, options: RequestOptions = {}): Promise<Log[]> {
     // Convert camelCase params to snake_case for API
-    const queryParams: Record<string, any> = {};
-
-    if (params.appName) queryParams.app_name = params.appName;
-    if (params.environment) queryParams.environment = params.environment;
-    if (params.startDate) queryParams.start_date = params.startDate.toISOString();
-    if (params.endDate) queryParams.end_date = params.endDate.toISOString();
+    const queryParams = this.toFilterParams(params);
+    if (params.tags && Object.keys(params.tags).length > 0) {
+      queryParams.tags = JSON.stringify(params.tags);
+    }
     if (params.limit !== undefined) queryParams.limit = params.limit;
     if (params.offset !== undefined) queryParams.offset = params.offset;
 
-    try {
-      const response = (await this.client.get('/logs', queryParams)) as LogsResponse;
+    const response = (await this.client.get(
+      '/logs',
+      queryParams,
+      undefined,
+      options
+    )) as LogsResponse;
+
+    // Check if response has logs property and it's an array
+    if (!response || !response.logs || !Array.isArray(response.logs)) {
+      diagnostics.warn('No logs found. Please check your query parameters and try again.');
+      return [];
+    }
+
+    // Map the logs to Log objects
+    return response.logs.map((logData) => new Log(logData));
+  }
+
+  /**
+   * Iterate over every log matching the filters, requesting pages as needed
+   * @param params Filters as for list(), plus pageSize, concurrency and a cursor to resume from
+   * @param options Retry behaviour of each page request
+   * @returns A LogIterator to use with `for await`; its cursor marks how far iteration got
+   * @throws ValidationError if pageSize, concurrency or the cursor is invalid. Iteration
+   * throws the matching QuotientAIError subclass if an API call fails.
+   */
+  iterate(params: IterateLogsParams = {}, options: RequestOptions = {}): LogIterator {
+    const { pageSize = DEFAULT_PAGE_SIZE, concurrency = 1, cursor, ...filters } = params;
+    for (const [field, value] of [
+      ['pageSize', pageSize],
+      ['concurrency', concurrency],
+    ] as const) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new ValidationError(`${field} must be a positive integer`, {
+          code: 'out_of_range',
+          field,
+        });
+      }
+    }
+    const offset = cursor === undefined ? 0 : LogIterator.decodeCursor(cursor);
+
+    return new LogIterator(
+      (pageOffset, limit) => this.list({ ...filters, limit, offset: pageOffset }, options),
+      pageSize,
+      concurrency,
+      offset
+    );
+  }
 
-      // Check if response has logs property and it's an array
-      if (!response || !response.logs || !Array.isArray(response.logs)) {
-        console.warn('No logs found. Please check your query parameters and try again.');
-        return [];
+  /**
+   * Get a log by id
+   * @param id The ID of the log
+   * @param options Retry behaviour of the request
+   * @returns Promise resolving to the log
+   * @throws ValidationError if no id is given, NotFoundError if there is no such log,
+   * or the matching QuotientAIError subclass if the API call fails
+   */
+  async get(id: string, options: RequestOptions = {}): Promise<Log> {
+    this.requireId(id);
+    const response = (await this.client.get(
+      `/logs/${id}`,
+      undefined,
+      undefined,
+      options
+    )) as SingleLogResponse;
+    return this.toLog(response, `/logs/${id}`);
+  }
+
+  /**
+   * Replace the tags of a log
+   * @param id The ID of the log
+   * @param tags The new tags; tags not included are removed
+   * @param options Retry behaviour of the request
+   * @returns Promise resolving to the updated log
+   * @throws ValidationError if no id is given, NotFoundError if there is no such log,
+   * or the matching QuotientAIError subclass if the API call fails
+   */
+  async updateTags(
+    id: string,
+    tags: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<Log> {
+    this.requireId(id);
+    if (!tags || typeof tags !== 'object' || Array.isArray(tags)) {
+      throw new ValidationError('tags must be an object', { code: 'invalid_type', field: 'tags' });
+    }
+    const response = (await this.client.patch(
+      `/logs/${id}`,
+      { tags },
+      undefined,
+      options
+    )) as SingleLogResponse;
+    return this.toLog(response, `/logs/${id}`);
+  }
+
+  /**
+   * Delete a log along with its detection results
+   * @param id The ID of the log
+   * @param options Retry behaviour of the request
+   * @returns Promise resolving to the deleted log
+   * @throws ValidationError if no id is given, NotFoundError if there is no such log,
+   * or the matching QuotientAIError subclass if the API call fails
+   */
+  async delete(id: string, options: RequestOptions = {}): Promise<Log> {
+    this.requireId(id);
+    const response = (await this.client.delete(
+      `/logs/${id}`,
+      undefined,
+      options
+    )) as SingleLogResponse;
+    return this.toLog(response, `/logs/${id}`);
+  }
+
+  /**
+   * Delete every log matching a filter, e.g. all logs tagged with a user's id for an
+   * erasure request
+   * @param filter Which logs to delete; at least one of appName, environment, startDate,
+   * endDate, sessionId, conversationId or tags is required
+   * @param options Retry behaviour of the request
+   * @returns Promise resolving to the deleted logs
+   * @throws ValidationError if the filter is empty or a tag has no value, or the
+   * matching QuotientAIError subclass if the API call fails
+   */
+  async deleteWhere(filter: DeleteLogsFilter, options: RequestOptions = {}): Promise<Log[]> {
+    const body = this.toFilterParams(filter || {});
+    if (filter?.tags) {
+      // A missing value would be dropped from the request, widening the deletion
+      for (const [key, value] of Object.entries(filter.tags)) {
+        if (value === undefined || value === null) {
+          throw new ValidationError(`tag ${key} must have a value to delete by`, {
+            code: 'required',
+            field: `tags.${key}`,
+          });
+        }
       }
+      if (Object.keys(filter.tags).length > 0) {
+        body.tags = filter.tags;
+      }
+    }
+    // Outcome and text filters only narrow a deletion; on their own they could match
+    // logs across every app and user
+    if (!DELETE_SCOPE_PARAMS.some((param) => param in body)) {
+      throw new ValidationError(
+        'deleteWhere requires at least one of appName, environment, startDate, endDate, ' +
+          'sessionId, conversationId or tags',
+        { code: 'required', field: 'filter' }
+      );
+    }
 
-      // Map the logs to Log objects
-      return response.logs.map((logData) => new Log(logData));
-    } catch (error) {
-      logError(error as Error, 'LogsResource.list');
+    // Deleting the same set twice has the same result, so retries are safe
+    const response = (await this.client.post('/logs/delete', body, undefined, {
+      idempotent: true,
+      ...options,
+    })) as LogsResponse;
+    if (!response || !Array.isArray(response.logs)) {
       return [];
     }
+    return response.logs.map((logData) => new Log(logData));
+  }
+
+  private requireId(id: string): void {
+    if (!id) {
+      throw new ValidationError('Log ID is required', { code: 'required', field: 'id' });
+    }
+  }
+
+  private toLog(response: SingleLogResponse, path: string): Log {
+    if (!response || !response.log) {
+      throw new QuotientAIError(`Unexpected response from ${path}: no log returned`);
+    }
+    return new Log(response.log);
+  }
+
+  // Convert camelCase filter params to snake_case query params
+  // Tags are left to the caller, as they are sent differently in queries and bodies
+  private toFilterParams(filter: Omit<LogFilter, 'tags'>): Record<string, any> {
+    const queryParams: Record<string, any> = {};
+
+    if (filter.appName) queryParams.app_name = filter.appName;
+    if (filter.environment) queryParams.environment = filter.environment;
+    if (filter.startDate) queryParams.start_date = filter.startDate.toISOString();
+    if (filter.endDate) queryParams.end_date = filter.endDate.toISOString();
+    if (filter.sessionId) queryParams.session_id = filter.sessionId;
+    if (filter.conversationId) queryParams.conversation_id = filter.conversationId;
+    if (filter.status !== undefined) {
+      queryParams.status = ([] as LOG_STATUS[]).concat(filter.status).join(',');
+    }
+    if (filter.hasHallucination !== undefined) {
+      queryParams.has_hallucination = filter.hasHallucination;
+    }
+    if (filter.minDocRelevancyAverage !== undefined) {
+      queryParams.min_doc_relevancy_average = filter.minDocRelevancyAverage;
+    }
+    if (filter.maxDocRelevancyAverage !== undefined) {
+      queryParams.max_doc_relevancy_average = filter.maxDocRelevancyAverage;
+    }
+    if (filter.detections && filter.detections.length > 0) {
+      queryParams.detections = filter.detections.join(',');
+    }
+    if (filter.search) queryParams.search = filter.search;
+
+    return queryParams;
   }
 
   /**
    * Get detection results for a log
    * @param logId The ID of the log to get detection results for
+   * @param options Retry behaviour of the request
    * @returns Promise resolving to the detection results when available
-   * @throws Error if the API call fails, to allow for proper retry handling
+   * @throws ValidationError if no log ID is given, or the matching QuotientAIError
+   * subclass if the API call fails, to allow for proper retry handling
    */
-  async getDetections(logId: string): Promise<DetectionResults | null> {
-    try {
-      if (!logId) {
-        throw new Error('Log ID is required for detection polling');
-      }
+  async getDetections(
+    logId: string,
+    options: RequestOptions = {}
+  ): Promise<DetectionResults | null> {
+    if (!logId) {
+      throw new ValidationError('Log ID is required for detection polling');
+    }
 
-      // The path should match the Python implementation which uses `/logs/{log_id}/rca`
-      const path = `/logs/${logId}/rca`;
-      const response = (await this.client.get(path)) as DetectionResultsResponse;
+    // The path should match the Python implementation which uses `/logs/{log_id}/rca`
+    const path = `/logs/${logId}/rca`;
+    const response = (await this.client.get(
+      path,
+      undefined,
+      undefined,
+      options
+    )) as DetectionResultsResponse;
 
-      if (!response) {
-        return null;
-      }
-
-      // Convert snake_case response to camelCase
-      return this.convertToDetectionResults(response);
-    } catch (error) {
+    if (!response) {
       return null;
     }
+
+    // Convert snake_case response to camelCase
+    return this.convertToDetectionResults(response);
   }
 
   /**
@@ -383,6 +1084,7 @@ export class LogsResource {
       logMessageHistory,
       logInstructions,
       evaluations,
+      feedback: response.feedback?.map(toFeedback) || [],
     };
   }
 }
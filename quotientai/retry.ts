@@ -0,0 +1,94 @@
+import axios, { AxiosError } from 'axios';
+
+// Backoff bounds in milliseconds
+export const INITIAL_RETRY_DELAY = 500;
+export const MAX_RETRY_DELAY = 8000;
+// Retry-After values above this are ignored in favour of our own backoff
+export const MAX_RETRY_AFTER = 60000;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([408, 429]);
+
+export interface RequestOptions {
+  // Overrides the client's maxRetries for this call
+  maxRetries?: number;
+  // Retry connection failures and timeouts even if the HTTP method is not idempotent,
+  // e.g. a POST carrying a client-generated id
+  idempotent?: boolean;
+}
+
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Decide whether a failed request may be retried.
+ *
+ * 408, 429 and 5xx responses are always retried. Failures without a response
+ * (connection resets, DNS errors, timeouts) are only retried for idempotent
+ * requests, since the server may already have processed the original.
+ */
+export function shouldRetry(error: unknown, idempotent: boolean): boolean {
+  if (!axios.isAxiosError(error) || error.code === AxiosError.ERR_CANCELED) {
+    return false;
+  }
+
+  const response = error.response;
+  if (response) {
+    return RETRYABLE_STATUSES.has(response.status) || response.status >= 500;
+  }
+
+  return idempotent;
+}
+
+/**
+ * Parse the Retry-After (seconds or HTTP date) or retry-after-ms headers into milliseconds.
+ */
+export function parseRetryAfter(headers: Record<string, any> | undefined): number | null {
+  if (!headers) {
+    return null;
+  }
+
+  const retryAfterMs = parseFloat(headers['retry-after-ms']);
+  if (!Number.isNaN(retryAfterMs)) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter === undefined || retryAfter === null) {
+    return null;
+  }
+
+  const seconds = parseFloat(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  if (!Number.isNaN(date)) {
+    return date - Date.now();
+  }
+
+  return null;
+}
+
+/**
+ * Compute how long to wait before the next attempt. A server-provided Retry-After
+ * wins when it is reasonable; otherwise exponential backoff with jitter is used.
+ */
+export function retryDelay(error: unknown, attempt: number): number {
+  const retryAfter = axios.isAxiosError(error)
+    ? parseRetryAfter((error as AxiosError).response?.headers)
+    : null;
+  if (retryAfter !== null && retryAfter >= 0 && retryAfter <= MAX_RETRY_AFTER) {
+    return retryAfter;
+  }
+
+  const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(2, attempt), MAX_RETRY_DELAY);
+  // Up to 25% jitter so that concurrent clients don't retry in lockstep
+  return delay * (1 - Math.random() * 0.25);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { logError } from './exceptions';
+import { LogEntry, SamplingMatch, SamplingRule } from './types';
+
+/**
+ * Map a sampling key to a number in [0, 1). The same key always maps to the same
+ * number, in every process, so sampling decisions made with it are reproducible.
+ */
+export function hashToUnit(key: string): number {
+  const digest = createHash('sha256').update(key).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+function matches(match: SamplingMatch, log: LogEntry): boolean {
+  for (const [name, expected] of Object.entries(match.tags || {})) {
+    const actual = log.tags?.[name];
+    if (Array.isArray(expected) ? !expected.includes(actual) : actual !== expected) {
+      return false;
+    }
+  }
+
+  if (match.environment !== undefined) {
+    const environments = Array.isArray(match.environment) ? match.environment : [match.environment];
+    if (!environments.includes(log.environment)) {
+      return false;
+    }
+  }
+
+  if (match.hasDocuments !== undefined) {
+    const hasDocuments = !!log.documents && log.documents.length > 0;
+    if (hasDocuments !== match.hasDocuments) {
+      return false;
+    }
+  }
+
+  const outputLength = log.modelOutput?.length ?? 0;
+  if (match.minOutputLength !== undefined && outputLength < match.minOutputLength) {
+    return false;
+  }
+  if (match.maxOutputLength !== undefined && outputLength > match.maxOutputLength) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Return the first rule that matches the log, if any. Rules are checked in order.
+ * A match function that throws is reported and treated as not matching.
+ */
+export function findSamplingRule(rules: SamplingRule[], log: LogEntry): SamplingRule | undefined {
+  return rules.find((rule, i) => {
+    if (rule.match === undefined) {
+      return true;
+    }
+    if (typeof rule.match !== 'function') {
+      return matches(rule.match, log);
+    }
+    try {
+      return rule.match(log);
+    } catch (error) {
+      logError(error as Error, `samplingRules[${i}].match`);
+      return false;
+    }
+  });
+}
@@ -0,0 +1,69 @@
+import { logError } from './exceptions';
+
+type ShutdownHook = () => Promise<void> | void;
+
+const hooks = new Set<ShutdownHook>();
+let handlersRegistered = false;
+
+/**
+ * Run every registered hook, e.g. to flush pending logs and spans.
+ * A failing hook does not prevent the others from running.
+ */
+export async function runShutdownHooks(): Promise<void> {
+  await Promise.all(
+    Array.from(hooks).map(async (hook) => {
+      try {
+        await hook();
+      } catch (error) {
+        logError(new Error(`Error during auto-flush: ${error}`));
+      }
+    })
+  );
+}
+
+/**
+ * Register cleanup handlers for all process exit scenarios (similar to Python's atexit.register)
+ */
+function registerProcessHandlers(): void {
+  process.on('SIGINT', () => {
+    runShutdownHooks().then(() => process.exit(0));
+  });
+
+  process.on('SIGTERM', () => {
+    runShutdownHooks().then(() => process.exit(0));
+  });
+
+  process.on('beforeExit', () => {
+    runShutdownHooks();
+  });
+
+  // Handle uncaught exceptions and unhandled rejections
+  process.on('uncaughtException', (error) => {
+    logError(new Error(`Uncaught exception: ${error}`));
+    runShutdownHooks().then(() => process.exit(1));
+  });
+
+  process.on('unhandledRejection', (reason, promise) => {
+    logError(new Error(`Unhandled rejection at: ${promise}, reason: ${reason}`));
+    runShutdownHooks().then(() => process.exit(1));
+  });
+}
+
+/**
+ * Run a hook before the process exits. All hooks share one set of process
+ * handlers, so the process only exits once every hook has finished.
+ * Returns a function that unregisters the hook.
+ */
+export function onShutdown(hook: ShutdownHook): () => void {
+  hooks.add(hook);
+
+  // Register process handlers only once
+  if (!handlersRegistered) {
+    registerProcessHandlers();
+    handlersRegistered = true;
+  }
+
+  return () => {
+    hooks.delete(hook);
+  };
+}
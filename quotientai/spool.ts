@@ -0,0 +1,261 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SpoolConfig } from './types';
+import { logError } from './exceptions';
+
+export const DEFAULT_SPOOL_MAX_BYTES = 50 * 1024 * 1024;
+export const DEFAULT_SPOOL_SEGMENT_BYTES = 1024 * 1024;
+// Segments claimed by a process that died mid-replay are released after this long
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+const SEGMENT_EXT = '.jsonl';
+const CLAIMED_EXT = '.replaying';
+
+export interface SpoolRecord {
+  // What the payload is, e.g. 'log', so replay can route it to the right endpoint
+  kind: string;
+  payload: any;
+}
+
+/**
+ * Write-ahead spool for payloads that could not be sent. Records are appended to
+ * JSONL segment files and replayed oldest first. Each process writes to its own
+ * segments, and replay claims a segment by renaming it, so several processes can
+ * share one spool directory.
+ */
+export class LogSpool {
+  readonly directory: string;
+  private maxBytes: number;
+  private maxSegmentBytes: number;
+  private eviction: 'drop-oldest' | 'drop-newest';
+  private segmentPath: string | null = null;
+  private segmentBytes = 0;
+  private segmentSeq = 0;
+  private pending: boolean;
+  private replaying: Promise<number> | null = null;
+  private evictedCount = 0;
+
+  constructor(directory: string, config: SpoolConfig = {}) {
+    this.directory = directory;
+    this.maxBytes = config.maxBytes ?? DEFAULT_SPOOL_MAX_BYTES;
+    this.maxSegmentBytes = config.maxSegmentBytes ?? DEFAULT_SPOOL_SEGMENT_BYTES;
+    this.eviction = config.eviction ?? 'drop-oldest';
+
+    this.releaseStaleClaims();
+    this.pending = this.segments().length > 0;
+  }
+
+  // Number of records discarded to stay within maxBytes
+  get evicted(): number {
+    return this.evictedCount;
+  }
+
+  // Whether records may be waiting to be replayed
+  hasPending(): boolean {
+    return this.pending;
+  }
+
+  /**
+   * Persist a record. Returns false if it could not be written or was rejected by the eviction policy.
+   */
+  append(kind: string, payload: any): boolean {
+    const line = JSON.stringify({ kind, payload }) + '\n';
+    const bytes = Buffer.byteLength(line);
+
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+
+      if (!this.makeRoom(bytes)) {
+        this.evictedCount++;
+        return false;
+      }
+
+      if (!this.segmentPath || this.segmentBytes + bytes > this.maxSegmentBytes) {
+        this.startSegment();
+      }
+
+      fs.appendFileSync(this.segmentPath!, line);
+      this.segmentBytes += bytes;
+      this.pending = true;
+      return true;
+    } catch (error) {
+      logError(error as Error, 'LogSpool.append');
+      return false;
+    }
+  }
+
+  /**
+   * Send spooled records oldest first. If send throws, replay stops and the
+   * unsent records stay in the spool for the next attempt. Resolves to the
+   * number of records sent. Concurrent calls share one replay.
+   */
+  replay(send: (record: SpoolRecord) => Promise<void>): Promise<number> {
+    if (!this.replaying) {
+      this.replaying = this.replaySegments(send).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replaySegments(send: (record: SpoolRecord) => Promise<void>): Promise<number> {
+    // New failures during replay go to a fresh segment
+    this.segmentPath = null;
+
+    let replayed = 0;
+    for (const name of this.segments()) {
+      const segmentPath = path.join(this.directory, name);
+      const claimedPath = segmentPath + CLAIMED_EXT;
+      try {
+        fs.renameSync(segmentPath, claimedPath);
+      } catch {
+        // Another process claimed or removed it
+        continue;
+      }
+      // A claim is judged stale by its mtime, which rename keeps from the last append
+      try {
+        const now = new Date();
+        fs.utimesSync(claimedPath, now, now);
+      } catch {
+        // Released as stale and reclaimed in the meantime
+        continue;
+      }
+
+      const records = this.readRecords(claimedPath);
+      for (let i = 0; i < records.length; i++) {
+        try {
+          await send(records[i]);
+          replayed++;
+        } catch {
+          this.putBack(claimedPath, name, records.slice(i));
+          this.pending = true;
+          return replayed;
+        }
+      }
+      fs.unlinkSync(claimedPath);
+    }
+
+    this.pending = this.segments().length > 0;
+    return replayed;
+  }
+
+  // Return the unsent records of a claimed segment to the spool
+  private putBack(claimedPath: string, name: string, records: SpoolRecord[]): void {
+    fs.writeFileSync(claimedPath, records.map((record) => JSON.stringify(record) + '\n').join(''));
+    this.returnClaim(claimedPath, name);
+  }
+
+  /**
+   * Make a claimed segment replayable again. Its writer may have re-created the
+   * original segment since it was claimed, so the records go to a new segment named
+   * to sort just before the original, ahead of anything appended since.
+   */
+  private returnClaim(claimedPath: string, name: string): void {
+    const base = name.slice(0, -SEGMENT_EXT.length);
+    for (let attempt = 0; ; attempt++) {
+      // '-' sorts before the '.' of the original's extension
+      const returnedPath = path.join(
+        this.directory,
+        `${base}-${Date.now()}-${process.pid}-${attempt}${SEGMENT_EXT}`
+      );
+      try {
+        // Unlike rename, link fails rather than replace an existing file
+        fs.linkSync(claimedPath, returnedPath);
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+    fs.unlinkSync(claimedPath);
+  }
+
+  private readRecords(filePath: string): SpoolRecord[] {
+    const records: SpoolRecord[] = [];
+    for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip a line torn by a crash mid-write
+      }
+    }
+    return records;
+  }
+
+  // Segment file names sorted oldest first
+  private segments(): string[] {
+    try {
+      return fs
+        .readdirSync(this.directory)
+        .filter((name) => name.endsWith(SEGMENT_EXT))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private startSegment(): void {
+    // Timestamp first so that lexical order is chronological
+    const name = `${Date.now()}-${process.pid}-${this.segmentSeq++}${SEGMENT_EXT}`;
+    this.segmentPath = path.join(this.directory, name);
+    this.segmentBytes = 0;
+  }
+
+  // Apply the eviction policy so that `bytes` more fit within maxBytes
+  private makeRoom(bytes: number): boolean {
+    const files = this.segments().map((name) => {
+      const filePath = path.join(this.directory, name);
+      return { filePath, size: fs.statSync(filePath).size };
+    });
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+
+    if (total + bytes <= this.maxBytes) {
+      return true;
+    }
+    if (this.eviction === 'drop-newest') {
+      return false;
+    }
+
+    for (const file of files) {
+      if (total + bytes <= this.maxBytes) {
+        break;
+      }
+      try {
+        this.evictedCount += this.readRecords(file.filePath).length;
+        fs.unlinkSync(file.filePath);
+        total -= file.size;
+      } catch {
+        // Claimed by a replay in the meantime
+      }
+      if (file.filePath === this.segmentPath) {
+        this.segmentPath = null;
+      }
+    }
+
+    return total + bytes <= this.maxBytes;
+  }
+
+  private releaseStaleClaims(): void {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.directory).filter((name) => name.endsWith(CLAIMED_EXT));
+    } catch {
+      return;
+    }
+
+    for (const name of names) {
+      const claimedPath = path.join(this.directory, name);
+      try {
+        if (Date.now() - fs.statSync(claimedPath).mtimeMs > STALE_CLAIM_MS) {
+          this.returnClaim(claimedPath, name.slice(0, -CLAIMED_EXT.length));
+        }
+      } catch {
+        // Released by another process
+      }
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TokenData, TokenStore } from './types';
+import { logError, QuotientAIError } from './exceptions';
+import { sleep } from './retry';
+
+// How long to wait for another process to release the token lock, in milliseconds
+const LOCK_TIMEOUT = 2000;
+// Locks older than this were left behind by a crashed process and are broken
+const STALE_LOCK_AGE = 10000;
+
+/**
+ * Persists the token as JSON on disk so it survives restarts and is shared by
+ * processes using the same API key. Writes go to a temp file that is renamed into
+ * place, so readers never see a partial file, and happen under a lock file so
+ * processes refreshing at the same time don't replace a newer token with an older one.
+ */
+export class FileTokenStore implements TokenStore {
+  readonly path: string;
+
+  constructor(tokenPath: string) {
+    this.path = tokenPath;
+  }
+
+  load(): TokenData | null {
+    if (!fs.existsSync(this.path)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.path, 'utf-8')) as TokenData;
+    } catch {
+      // If loading fails, behave as if there is no token
+      return null;
+    }
+  }
+
+  async save(data: TokenData): Promise<void> {
+    try {
+      // Create directory if it doesn't exist
+      fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    } catch (error) {
+      logError(
+        new QuotientAIError(
+          'Could not create directory for token. If you see this error please notify us at contact@quotientai.co'
+        )
+      );
+      return;
+    }
+
+    try {
+      await this.withLock(() => {
+        // Another process may have stored a token that outlives ours
+        const current = this.load();
+        if (current && current.api_key === data.api_key && current.expires_at > data.expires_at) {
+          return;
+        }
+
+        // Save to disk atomically
+        const tempPath = `${this.path}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(data));
+        fs.renameSync(tempPath, this.path);
+      });
+    } catch (error) {
+      logError(error as Error, 'FileTokenStore.save');
+    }
+  }
+
+  // Run fn while holding an exclusive lock file next to the token
+  private async withLock(fn: () => void): Promise<void> {
+    const lockPath = `${this.path}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT;
+    let fd: number;
+
+    for (;;) {
+      try {
+        fd = fs.openSync(lockPath, 'wx');
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_AGE) {
+          fs.unlinkSync(lockPath);
+          continue;
+        }
+      } catch {
+        // Released while we were looking; try again
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new QuotientAIError(`Timed out waiting for token lock ${lockPath}`);
+      }
+      await sleep(10);
+    }
+
+    try {
+      fn();
+    } finally {
+      fs.closeSync(fd);
+      fs.unlinkSync(lockPath);
+    }
+  }
+
+  clear(): void {
+    try {
+      fs.unlinkSync(this.path);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Keeps the token in memory. Share one instance between clients to reuse a
+ * token within a process without touching the filesystem.
+ */
+export class MemoryTokenStore implements TokenStore {
+  private data: TokenData | null = null;
+
+  load(): TokenData | null {
+    return this.data;
+  }
+
+  save(data: TokenData): void {
+    this.data = data;
+  }
+
+  clear(): void {
+    this.data = null;
+  }
+}
+
+/**
+ * Never persists the token; each client authenticates with its API key until
+ * the API issues it a new token. Suited to serverless and read-only filesystems.
+ */
+export class NoopTokenStore implements TokenStore {
+  load(): null {
+    return null;
+  }
+
+  save(): void {}
+
+  clear(): void {}
+}
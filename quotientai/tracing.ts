@@ -4,6 +4,9 @@ import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-proto';
 import { resourceFromAttributes } from '@opentelemetry/resources';
 import { BatchSpanProcessor } from '@opentelemetry/sdk-trace-base';
 import { logError } from './exceptions';
+import { onShutdown } from './shutdown';
+import { diagnostics } from './diagnostics';
+import { getContextAttributes } from './context';
 
 export enum QuotientAttributes {
   APP_NAME = 'app.name',
@@ -39,61 +42,36 @@ export class TracingResource {
   constructor(client: any) {
     this.client = client;
     this.endpoint =
-      process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'https://api.quotientai.co/api/v1/traces';
+      process.env.OTEL_EXPORTER_OTLP_ENDPOINT ||
+      `${client?.baseUrl || 'https://api.quotientai.co/api/v1'}/traces`;
 
     // Register this instance for cleanup
     TracingResource.instances.add(this);
 
-    // Register cleanup handlers only once (similar to Python's atexit.register)
+    // Register the cleanup hook only once
     if (!TracingResource.cleanupRegistered) {
-      TracingResource.registerCleanupHandlers();
+      onShutdown(TracingResource.cleanupAllInstances);
       TracingResource.cleanupRegistered = true;
     }
   }
 
   /**
-   * Register cleanup handlers for all process exit scenarios
+   * Flush and shut down all instances, run automatically on process exit
    */
-  private static registerCleanupHandlers(): void {
-    const cleanupAllInstances = async () => {
-      // Force flush all TracingResource instances before cleanup
-      const flushPromises = Array.from(TracingResource.instances).map(async (instance) => {
-        try {
-          if (instance.sdk) {
-            await instance.sdk.shutdown();
-          }
-        } catch (error) {
-          logError(new Error(`Error during auto-flush: ${error}`));
+  private static async cleanupAllInstances(): Promise<void> {
+    // Force flush all TracingResource instances before cleanup
+    const flushPromises = Array.from(TracingResource.instances).map(async (instance) => {
+      try {
+        if (instance.sdk) {
+          await instance.sdk.shutdown();
         }
-      });
-      await Promise.all(flushPromises);
-
-      TracingResource.instances.clear();
-    };
-
-    // Register cleanup for various exit scenarios
-    process.on('SIGINT', () => {
-      cleanupAllInstances().then(() => process.exit(0));
-    });
-
-    process.on('SIGTERM', () => {
-      cleanupAllInstances().then(() => process.exit(0));
-    });
-
-    process.on('beforeExit', () => {
-      cleanupAllInstances();
-    });
-
-    // Handle uncaught exceptions and unhandled rejections
-    process.on('uncaughtException', (error) => {
-      logError(new Error(`Uncaught exception: ${error}`));
-      cleanupAllInstances().then(() => process.exit(1));
+      } catch (error) {
+        logError(new Error(`Error during auto-flush: ${error}`));
+      }
     });
+    await Promise.all(flushPromises);
 
-    process.on('unhandledRejection', (reason, promise) => {
-      logError(new Error(`Unhandled rejection at: ${promise}, reason: ${reason}`));
-      cleanupAllInstances().then(() => process.exit(1));
-    });
+    TracingResource.instances.clear();
   }
 
   init(config: TracingConfig): void {
@@ -128,6 +106,7 @@ export class TracingResource {
 
     try {
       const defaultHeaders = {
+        ...(this.client.defaultHeaders || {}),
         Authorization: `Bearer ${this.client.apiKey}`,
         // Note: Content-Type header is automatically set by the protobuf exporter
         ...this.headers,
@@ -140,7 +119,7 @@ export class TracingResource {
             Object.assign(defaultHeaders, envHeaders);
           }
         } catch (error) {
-          console.warn('Failed to parse OTEL_EXPORTER_OTLP_HEADERS, using default headers...');
+          diagnostics.warn('Failed to parse OTEL_EXPORTER_OTLP_HEADERS, using default headers...');
         }
       }
 
@@ -169,8 +148,14 @@ export class TracingResource {
       this.isConfigured = true;
 
       const instrumentNames = this.instruments.map((i) => i.constructor.name).join(', ');
-      console.log(
-        `Tracing initialized successfully for app: ${this.appName}, environment: ${this.environment}, collector endpoint: ${this.endpoint}${instrumentNames ? `, instruments: ${instrumentNames}` : ''}`
+      diagnostics.info(
+        `Tracing initialized successfully for app: ${this.appName}, environment: ${this.environment}, collector endpoint: ${this.endpoint}${instrumentNames ? `, instruments: ${instrumentNames}` : ''}`,
+        {
+          appName: this.appName,
+          environment: this.environment,
+          endpoint: this.endpoint,
+          instruments: this.instruments.map((i) => i.constructor.name),
+        }
       );
     } catch (error) {
       logError(new Error(`Failed to setup tracing: ${error}`));
@@ -271,8 +256,9 @@ export class TracingResource {
 
     return await this.tracer.startActiveSpan(name, async (span: any) => {
       try {
-        // Set span attributes
+        // Set span attributes, including the tags of the active context
         span.setAttributes({
+          ...getContextAttributes(),
           [QuotientAttributes.APP_NAME]: this.appName,
           [QuotientAttributes.ENVIRONMENT]: this.environment,
         });
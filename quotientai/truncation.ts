@@ -0,0 +1,112 @@
+import { CreateLogParams } from './resources/logs';
+import { LogDocument, PayloadLimits } from './types';
+
+// Tag listing the fields that were truncated to fit the limits
+export const TRUNCATION_TAG = 'truncated';
+
+// Texts are not shortened below this many characters to fit maxPayloadBytes
+const MIN_TEXT_LENGTH = 256;
+
+type Document = string | LogDocument;
+
+function cut(text: string, length: number, keep: 'head' | 'tail'): string {
+  return keep === 'tail' ? text.slice(text.length - length) : text.slice(0, length);
+}
+
+function documentText(document: Document): string {
+  return typeof document === 'string' ? document : document.pageContent;
+}
+
+function payloadBytes(log: CreateLogParams): number {
+  return Buffer.byteLength(JSON.stringify(log));
+}
+
+/**
+ * Apply the limits to a log. Returns a truncated copy and the names of the fields
+ * that were truncated. If the log still exceeds maxPayloadBytes once everything
+ * that can be cut has been, `fits` is false.
+ */
+export function truncateLog(
+  log: CreateLogParams,
+  limits: PayloadLimits
+): { log: CreateLogParams; truncated: string[]; fits: boolean } {
+  const keep = limits.truncate ?? 'head';
+  const truncated = new Set<string>();
+  const result: CreateLogParams = { ...log };
+
+  // Cap every document at length characters
+  const capDocuments = (length: number) => {
+    result.documents = result.documents?.map((document) => {
+      const text = documentText(document);
+      if (typeof text !== 'string' || text.length <= length) {
+        return document;
+      }
+      truncated.add('documents');
+      const shortened = cut(text, length, keep);
+      return typeof document === 'string' ? shortened : { ...document, pageContent: shortened };
+    });
+  };
+
+  if (
+    result.documents &&
+    limits.maxDocuments !== undefined &&
+    result.documents.length > limits.maxDocuments
+  ) {
+    result.documents = result.documents.slice(0, limits.maxDocuments);
+    truncated.add('documents');
+  }
+  if (limits.maxDocumentLength !== undefined) {
+    capDocuments(limits.maxDocumentLength);
+  }
+  if (
+    result.messageHistory &&
+    limits.maxMessageHistory !== undefined &&
+    result.messageHistory.length > limits.maxMessageHistory
+  ) {
+    result.messageHistory = result.messageHistory.slice(
+      result.messageHistory.length - limits.maxMessageHistory
+    );
+    truncated.add('messageHistory');
+  }
+
+  const maxBytes = limits.maxPayloadBytes;
+  if (maxBytes === undefined) {
+    return { log: result, truncated: Array.from(truncated).sort(), fits: true };
+  }
+  const tooLarge = () => payloadBytes(result) > maxBytes;
+
+  // Shorten the longest documents first
+  while (tooLarge()) {
+    const longest = Math.max(0, ...(result.documents || []).map((d) => documentText(d).length));
+    if (longest <= MIN_TEXT_LENGTH) {
+      break;
+    }
+    capDocuments(Math.max(MIN_TEXT_LENGTH, Math.floor(longest / 2)));
+  }
+
+  // Then drop the oldest messages, keeping the latest
+  while (tooLarge() && result.messageHistory && result.messageHistory.length > 1) {
+    result.messageHistory = result.messageHistory.slice(1);
+    truncated.add('messageHistory');
+  }
+
+  // Then drop documents from the end
+  while (tooLarge() && result.documents && result.documents.length > 0) {
+    result.documents = result.documents.slice(0, -1);
+    truncated.add('documents');
+  }
+
+  // Finally shorten the output and the query
+  for (const field of ['modelOutput', 'userQuery'] as const) {
+    while (tooLarge()) {
+      const text = result[field];
+      if (typeof text !== 'string' || text.length <= MIN_TEXT_LENGTH) {
+        break;
+      }
+      result[field] = cut(text, Math.max(MIN_TEXT_LENGTH, Math.floor(text.length / 2)), keep);
+      truncated.add(field);
+    }
+  }
+
+  return { log: result, truncated: Array.from(truncated).sort(), fits: !tooLarge() };
+}
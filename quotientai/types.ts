@@ -1,4 +1,5 @@
 import { BaseQuotientClient } from './client';
+import { CreateLogParams } from './resources/logs';
 
 export interface TokenData {
   token: string;
@@ -6,6 +7,13 @@ export interface TokenData {
   api_key: string;
 }
 
+// Where the client keeps the JWT issued by the API. Methods may be sync or async.
+export interface TokenStore {
+  load(): TokenData | null | Promise<TokenData | null>;
+  save(data: TokenData): void | Promise<void>;
+  clear?(): void | Promise<void>;
+}
+
 export interface AuthResponse {
   token: string;
   expires_at: number;
@@ -15,6 +23,40 @@ export interface BaseResource {
   client: BaseQuotientClient;
 }
 
+export interface QuotientAIOptions {
+  // API key; falls back to the QUOTIENT_API_KEY environment variable
+  apiKey?: string;
+  // Base URL of the Quotient API (default: https://api.quotientai.co/api/v1)
+  baseUrl?: string;
+  // Default request timeout in milliseconds (default: 60000)
+  timeout?: number;
+  // Maximum number of times a failed request is retried (default: 2)
+  maxRetries?: number;
+  // Directory used to persist auth tokens (default: ~/.quotient)
+  tokenStorageDir?: string;
+  // How auth tokens are stored: on disk (default), in memory, not at all, or a custom TokenStore
+  tokenStore?: 'file' | 'memory' | 'none' | TokenStore;
+  // Headers sent with every API request and trace export
+  defaultHeaders?: Record<string, string>;
+  // Suffix appended to the SDK's User-Agent header, e.g. "my-service/1.2.0"
+  userAgent?: string;
+  // Persist logs that could not be sent and replay them later
+  spool?: boolean | SpoolConfig;
+  // Throw ValidationError for invalid logger config and logs instead of logging errors (default: false)
+  strict?: boolean;
+}
+
+export interface SpoolConfig {
+  // Directory for spool segments (default: <tokenStorageDir>/spool)
+  directory?: string;
+  // Maximum total size of the spool on disk in bytes (default: 50MB)
+  maxBytes?: number;
+  // Size at which a new segment file is started in bytes (default: 1MB)
+  maxSegmentBytes?: number;
+  // What to discard once maxBytes is reached (default: 'drop-oldest')
+  eviction?: 'drop-oldest' | 'drop-newest';
+}
+
 export interface LogDocument {
   pageContent: string;
   metadata?: Record<string, any>;
@@ -37,6 +79,22 @@ export interface LogEntry {
   messageHistory?: Array<Record<string, any>> | null;
   instructions?: string[] | null;
   tags?: Record<string, any>;
+  // Groups the turns of a multi-turn interaction; see QuotientLogger.session()
+  sessionId?: string;
+  conversationId?: string;
+  // Position of this turn in the session, starting at 0
+  turnIndex?: number;
+  // Model that produced modelOutput, e.g. 'gpt-4o', and who served it, e.g. 'openai'
+  model?: string;
+  provider?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  // Time the model took to respond in milliseconds
+  latencyMs?: number;
+  // Cost of the call in USD; computed from the logger's prices when left out
+  cost?: number;
+  // Key for deterministic sampling, e.g. a user or conversation id; overrides the logger's sampleBy
+  sampleKey?: string;
   // New detection parameters (recommended)
   detections?: DetectionType[];
   detectionSampleRate?: number;
@@ -49,6 +107,145 @@ export interface LogEntry {
   inconsistencyDetection?: boolean;
 }
 
+export interface LogResult {
+  // 'sent': sent to the API, or accepted for background delivery when batching or spooling
+  // 'sampled_out': skipped by sampleRate
+  // 'invalid': rejected by validation before sending
+  // 'dropped': discarded by a beforeSend hook
+  // 'failed': could not be queued or sent
+  status: 'sent' | 'sampled_out' | 'invalid' | 'dropped' | 'failed';
+  // ID of the log; set when status is 'sent'
+  id?: string;
+  // Why the log was not sent; set when status is 'invalid' or 'failed'
+  errors?: string[];
+  // Detections requested for the log
+  detectionsRequested: DetectionType[];
+}
+
+export interface SamplingMatch {
+  // Tag values to match; an array matches any of its values
+  tags?: Record<string, any>;
+  // Logger environment, or any of several
+  environment?: string | string[];
+  // Whether the log must (true) or must not (false) have documents
+  hasDocuments?: boolean;
+  // Bounds on the length of modelOutput in characters, inclusive
+  minOutputLength?: number;
+  maxOutputLength?: number;
+}
+
+export interface SamplingRule {
+  // Conditions the log must all meet, or a predicate (a predicate that throws doesn't match);
+  // omit to match every log
+  match?: SamplingMatch | ((log: LogEntry) => boolean);
+  // Log sample rate for matching logs (default: the logger's sampleRate)
+  sampleRate?: number;
+  // Detections to request for matching logs (default: the logger's detections)
+  detections?: DetectionType[];
+  // Detection sample rate for matching logs (default: the logger's detectionSampleRate)
+  detectionSampleRate?: number;
+}
+
+// Built-in detectors for personal data and secrets
+export type BuiltinRedactor = 'email' | 'phone' | 'credit_card' | 'api_key';
+
+export interface Redactor {
+  // Recorded in tags when the redactor fires, e.g. 'employee_id'
+  name: string;
+  // Text to redact; the global flag is added if missing
+  pattern?: RegExp;
+  // Alternative to pattern: returns the substrings of text to redact
+  detect?: (text: string) => string[];
+}
+
+export interface RedactionConfig {
+  // Redactors applied in order (default: all built-in redactors)
+  redactors?: (BuiltinRedactor | Redactor)[];
+  // Replace matches with a [REDACTED_<NAME>] placeholder, a [<NAME>:<hmac prefix>] hash that
+  // still lets equal values be correlated, or nothing (default: 'mask')
+  strategy?: 'mask' | 'hash' | 'drop';
+  // Secret key for the 'hash' strategy. Equal values only hash the same under the same key,
+  // so set it to correlate values across processes (default: a random key per process)
+  hashKey?: string | Buffer;
+}
+
+// Returns the log to send (or undefined to keep it as is), or null to drop it
+export type BeforeSendHook = (
+  log: CreateLogParams
+) => CreateLogParams | null | undefined | Promise<CreateLogParams | null | undefined>;
+
+export interface PayloadLimits {
+  // Maximum characters per document; longer documents are cut
+  maxDocumentLength?: number;
+  // Maximum number of documents; the first ones, in order, are kept
+  maxDocuments?: number;
+  // Maximum number of messageHistory entries; the most recent ones are kept
+  maxMessageHistory?: number;
+  // Maximum size of the log as JSON in bytes. Documents are shortened, then the oldest
+  // messages and the last documents dropped, then modelOutput and userQuery shortened
+  // until the log fits.
+  maxPayloadBytes?: number;
+  // Which end of a cut text to keep (default: 'head')
+  truncate?: 'head' | 'tail';
+}
+
+export interface BatchConfig {
+  // Maximum number of logs sent per request (default: 50)
+  maxBatchSize?: number;
+  // Milliseconds to wait before sending a partial batch (default: 1000)
+  flushInterval?: number;
+  // Maximum number of logs held in memory; further logs are dropped (default: 1000)
+  maxQueueSize?: number;
+}
+
+export interface ChildLoggerOptions {
+  // Merged over the parent's tags; tags passed at log time still win
+  tags?: Record<string, any>;
+  // Replace the parent's default detections; per-log values and sampling rules still win
+  detections?: DetectionType[];
+  detectionSampleRate?: number;
+}
+
+export interface FeedbackParams {
+  // End-user verdict on the response
+  thumbs?: 'up' | 'down';
+  // Numeric rating on a scale of your choice, e.g. 1 to 5
+  rating?: number;
+  comment?: string;
+  // Who gave the feedback
+  userId?: string;
+  tags?: Record<string, any>;
+}
+
+export interface FeedbackResult {
+  // 'sent': sent to the API, or spooled for replay when it was unreachable
+  // 'invalid': rejected by validation before sending
+  // 'failed': could not be sent
+  status: 'sent' | 'invalid' | 'failed';
+  // ID of the feedback; set when status is 'sent'
+  id?: string;
+  // Why the feedback was not sent; set when status is 'invalid' or 'failed'
+  errors?: string[];
+}
+
+export interface ModelPrice {
+  // USD per million prompt tokens
+  promptPerMillion: number;
+  // USD per million completion tokens
+  completionPerMillion: number;
+}
+
+// Prices by model name; a name also matches models that start with it, e.g. 'gpt-4o'
+// matches 'gpt-4o-2024-08-06'
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface SessionOptions {
+  // Set on every log of the session alongside the sessionId
+  conversationId?: string;
+  // Messages from before the session started, sent ahead of those it accumulates
+  messageHistory?: Array<Record<string, any>>;
+}
+
 export interface LoggerConfig {
   id?: string;
   createdAt?: string | Date;
@@ -56,6 +253,31 @@ export interface LoggerConfig {
   environment: string;
   tags?: Record<string, any>;
   sampleRate?: number;
+  // Sample deterministically by a key instead of at random, so logs sharing a key are all kept
+  // or all dropped, for both sampleRate and detectionSampleRate. Either the name of a tag whose
+  // value is the key, or a function returning the key for a log. Logs without a key, including
+  // those the function throws for, are sampled at random.
+  sampleBy?: string | ((log: Omit<LogEntry, 'appName' | 'environment'>) => string | undefined);
+  // Ordered sampling rules; the first rule matching a log decides its sample rate and detections.
+  // detections and detectionSampleRate passed to log() still take precedence.
+  samplingRules?: SamplingRule[];
+  // Redact personal data and secrets from every text field and document metadata before the
+  // log leaves the process. The names of the redactors that fired are added to the log's
+  // `redacted` tag.
+  redaction?: boolean | RedactionConfig;
+  // Hooks that transform or drop logs before they are sent, run in order before redaction.
+  // More can be added with logger.beforeSend().
+  beforeSend?: BeforeSendHook | BeforeSendHook[];
+  // Size limits enforced just before sending; the names of truncated fields are added to
+  // the log's `truncated` tag
+  limits?: PayloadLimits;
+  // Model prices used to fill in the cost of logs with a model and token counts
+  prices?: PriceTable;
+  // Throw ValidationError from init() and log() instead of logging errors (default: the client's strict option)
+  strict?: boolean;
+  // Queue logs in-process and send them in the background in batches.
+  // Call quotient.flush() or quotient.shutdown() to drain the queue.
+  batch?: boolean | BatchConfig;
   // New detection parameters (recommended)
   detections?: DetectionType[];
   detectionSampleRate?: number;
@@ -181,12 +403,24 @@ export interface LogInstructionResponse {
   index: number;
 }
 
+export interface FeedbackResponse {
+  id: string;
+  log_id: string;
+  thumbs?: 'up' | 'down' | null;
+  rating?: number | null;
+  comment?: string | null;
+  user_id?: string | null;
+  tags?: Record<string, any> | null;
+  created_at: string;
+}
+
 export interface DetectionResultsResponse {
   log: LogDetailResponse;
   log_documents: DocumentLogResponse[] | null;
   log_message_history: LogMessageHistoryResponse[] | null;
   log_instructions: LogInstructionResponse[] | null;
   evaluations: EvaluationResponse[];
+  feedback?: FeedbackResponse[] | null;
 }
 
 // Common evaluation properties - Client side format (camelCase)
@@ -287,10 +521,18 @@ export interface LogInstruction {
   index: number;
 }
 
+export interface Feedback extends FeedbackParams {
+  id: string;
+  logId: string;
+  createdAt: string;
+}
+
 export interface DetectionResults {
   log: LogDetail;
   logDocuments: DocumentLog[] | null;
   logMessageHistory: LogMessageHistory[] | null;
   logInstructions: LogInstruction[] | null;
   evaluations: Evaluation[];
+  // End-user feedback recorded against the log
+  feedback: Feedback[];
 }
@@ -0,0 +1,195 @@
+import { ValidationError } from './exceptions';
+import { DetectionType, LogDocument, LogEntry } from './types';
+
+type LogFields = Omit<LogEntry, 'appName' | 'environment'>;
+
+// Type guard function to check if an object is a valid LogDocument
+export function isValidLogDocument(obj: any): {
+  valid: boolean;
+  error?: string;
+  code?: string;
+  property?: string;
+} {
+  try {
+    // Check if it has the required pageContent property
+    if (!('pageContent' in obj)) {
+      return {
+        valid: false,
+        error: "Missing required 'pageContent' property",
+        code: 'required',
+        property: 'pageContent',
+      };
+    }
+
+    // Check if pageContent is a string
+    if (typeof obj.pageContent !== 'string') {
+      return {
+        valid: false,
+        error: `The 'pageContent' property must be a string, found ${typeof obj.pageContent}`,
+        code: 'invalid_type',
+        property: 'pageContent',
+      };
+    }
+
+    // If metadata exists, check if it's an object
+    if ('metadata' in obj && obj.metadata !== null && typeof obj.metadata !== 'object') {
+      return {
+        valid: false,
+        error: `The 'metadata' property must be an object, found ${typeof obj.metadata}`,
+        code: 'invalid_type',
+        property: 'metadata',
+      };
+    }
+
+    return { valid: true };
+  } catch (error) {
+    return { valid: false, error: 'Unexpected error validating document' };
+  }
+}
+
+// Validate document format
+export function validateDocuments(documents: (string | LogDocument)[]): {
+  valid: boolean;
+  error?: ValidationError;
+} {
+  if (!documents || documents.length === 0) {
+    return { valid: true };
+  }
+
+  for (let i = 0; i < documents.length; i++) {
+    const doc = documents[i];
+    if (typeof doc === 'string') {
+      continue;
+    } else if (typeof doc === 'object' && doc !== null) {
+      const validation = isValidLogDocument(doc);
+      if (!validation.valid) {
+        return {
+          valid: false,
+          error: new ValidationError(
+            `Invalid document format at index ${i}: ${validation.error}. ` +
+              "Documents must be either strings or JSON objects with a 'pageContent' string property and an optional 'metadata' object. " +
+              "To fix this, ensure each document follows the format: { pageContent: 'your text content', metadata?: { key: 'value' } }",
+            {
+              code: validation.code,
+              field: validation.property
+                ? `documents[${i}].${validation.property}`
+                : `documents[${i}]`,
+            }
+          ),
+        };
+      }
+    } else {
+      return {
+        valid: false,
+        error: new ValidationError(
+          `Invalid document type at index ${i}. Found ${typeof doc}, but documents must be either strings or JSON objects with a 'pageContent' property. ` +
+            "To fix this, provide documents as either simple strings or properly formatted objects: { pageContent: 'your text content' }",
+          { code: 'invalid_type', field: `documents[${i}]` }
+        ),
+      };
+    }
+  }
+  return { valid: true };
+}
+
+// Check the detection sample rate and the fields each requested detection needs
+export function validateDetectionRequirements(
+  params: LogFields,
+  detections: DetectionType[],
+  detectionSampleRate: number
+): ValidationError | null {
+  if (detectionSampleRate < 0 || detectionSampleRate > 1) {
+    return new ValidationError('detectionSampleRate must be between 0 and 1', {
+      code: 'out_of_range',
+      field: 'detectionSampleRate',
+    });
+  }
+
+  for (const detection of detections) {
+    if (detection === DetectionType.HALLUCINATION) {
+      if (!params.userQuery) {
+        return new ValidationError(
+          'userQuery is required when hallucination detection is enabled',
+          {
+            code: 'required',
+            field: 'userQuery',
+          }
+        );
+      }
+      if (!params.modelOutput) {
+        return new ValidationError(
+          'modelOutput is required when hallucination detection is enabled',
+          { code: 'required', field: 'modelOutput' }
+        );
+      }
+      if (!params.documents && !params.messageHistory && !params.instructions) {
+        return new ValidationError(
+          'At least one of documents, messageHistory, or instructions must be provided when hallucination detection is enabled',
+          { code: 'required', field: 'documents' }
+        );
+      }
+    } else if (detection === DetectionType.DOCUMENT_RELEVANCY) {
+      if (!params.userQuery) {
+        return new ValidationError(
+          'userQuery is required when document_relevancy detection is enabled',
+          { code: 'required', field: 'userQuery' }
+        );
+      }
+      if (!params.documents) {
+        return new ValidationError(
+          'documents must be provided when document_relevancy detection is enabled',
+          { code: 'required', field: 'documents' }
+        );
+      }
+    }
+  }
+  return null;
+}
+
+// Check the session and usage fields
+export function validateLogFields(params: LogFields): ValidationError | null {
+  if (
+    params.turnIndex !== undefined &&
+    !(Number.isInteger(params.turnIndex) && params.turnIndex >= 0)
+  ) {
+    return new ValidationError('turnIndex must be a non-negative integer', {
+      code: 'out_of_range',
+      field: 'turnIndex',
+    });
+  }
+
+  for (const field of ['promptTokens', 'completionTokens', 'latencyMs', 'cost'] as const) {
+    const value = params[field];
+    if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+      return new ValidationError(`${field} must be a non-negative number`, {
+        code: 'out_of_range',
+        field,
+      });
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply every rule a log is checked against before it is sent, for the given
+ * detections. Returns the first problem found, or null if the log is valid.
+ */
+export function validateLogEntry(
+  params: LogFields,
+  detections: DetectionType[] = params.detections ?? [],
+  detectionSampleRate: number = params.detectionSampleRate ?? 0
+): ValidationError | null {
+  const error =
+    validateDetectionRequirements(params, detections, detectionSampleRate) ??
+    validateLogFields(params);
+  if (error) {
+    return error;
+  }
+  if (params.documents) {
+    const validation = validateDocuments(params.documents);
+    if (!validation.valid) {
+      return validation.error ?? new ValidationError('Invalid documents', { field: 'documents' });
+    }
+  }
+  return null;
+}
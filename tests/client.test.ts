@@ -1,8 +1,16 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AxiosError } from 'axios';
+import {
+  APIConnectionError,
+  BadRequestError,
+  InternalServerError,
+  RateLimitError,
+} from '../quotientai/exceptions';
 import { BaseQuotientClient } from '../quotientai/client';
 import * as fs from 'fs';
 import * as jwt from 'jsonwebtoken';
 import * as os from 'os';
+import { FileTokenStore, MemoryTokenStore, NoopTokenStore } from '../quotientai/tokens';
 
 vi.mock('fs', () => {
   return {
@@ -10,6 +18,11 @@ vi.mock('fs', () => {
     readFileSync: vi.fn().mockReturnValue('{}'),
     mkdirSync: vi.fn(),
     writeFileSync: vi.fn(),
+    openSync: vi.fn().mockReturnValue(3),
+    closeSync: vi.fn(),
+    renameSync: vi.fn(),
+    unlinkSync: vi.fn(),
+    statSync: vi.fn(),
   };
 });
 
@@ -37,6 +50,39 @@ describe('BaseQuotientClient', () => {
     expect(privateClient.tokenExpiry).toBe(0);
   });
 
+  it('should use default options when none are provided', () => {
+    const client = new BaseQuotientClient('test_api_key');
+    const privateClient = client as any;
+
+    expect(client.baseUrl).toBe('https://api.quotientai.co/api/v1');
+    expect(client.maxRetries).toBe(2);
+    expect(privateClient.client.defaults.baseURL).toBe('https://api.quotientai.co/api/v1');
+    expect(privateClient.client.defaults.timeout).toBe(60000);
+    expect(privateClient.client.defaults.headers['User-Agent']).toBe('quotientai-typescript');
+  });
+
+  it('should apply client options', () => {
+    const client = new BaseQuotientClient('test_api_key', {
+      baseUrl: 'http://localhost:8000/api/v1/',
+      timeout: 5000,
+      maxRetries: 5,
+      tokenStorageDir: '/tmp/quotient-tokens',
+      defaultHeaders: { 'X-Tenant': 'acme' },
+      userAgent: 'my-service/1.2.0',
+    });
+    const privateClient = client as any;
+
+    expect(client.baseUrl).toBe('http://localhost:8000/api/v1');
+    expect(client.maxRetries).toBe(5);
+    expect(privateClient.tokenPath).toBe('/tmp/quotient-tokens/pi_keyauth_token.json');
+    expect(privateClient.client.defaults.baseURL).toBe('http://localhost:8000/api/v1');
+    expect(privateClient.client.defaults.timeout).toBe(5000);
+    expect(privateClient.client.defaults.headers['X-Tenant']).toBe('acme');
+    expect(privateClient.client.defaults.headers['User-Agent']).toBe(
+      'quotientai-typescript my-service/1.2.0'
+    );
+  });
+
   it('should properly process and store tokens from a response', async () => {
     const client = new BaseQuotientClient('test_api_key');
     const privateClient = client as any;
@@ -472,4 +518,257 @@ describe('BaseQuotientClient', () => {
     expect(privateClient.client.delete).toHaveBeenCalledWith('/test', { timeout: 1000 });
     expect(result).toBe(mockResponse.data);
   });
+
+  describe('retries', () => {
+    const httpError = (status?: number, headers: Record<string, any> = {}) =>
+      new AxiosError(
+        'request failed',
+        status ? undefined : 'ECONNRESET',
+        {} as any,
+        {},
+        status ? ({ status, headers, data: {}, statusText: '', config: {} } as any) : undefined
+      );
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should retry 5xx responses and return the eventual result', async () => {
+      const client = new BaseQuotientClient('test_api_key');
+      const privateClient = client as any;
+      privateClient.client.get = vi
+        .fn()
+        .mockRejectedValueOnce(httpError(502))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValue({ data: { result: 'success' } });
+
+      const promise = client.get('/test');
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toEqual({ result: 'success' });
+      expect(privateClient.client.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const client = new BaseQuotientClient('test_api_key', { maxRetries: 1 });
+      const privateClient = client as any;
+      privateClient.client.get = vi.fn().mockRejectedValue(httpError(500));
+
+      const promise = client.get('/test');
+      const assertion = expect(promise).rejects.toBeInstanceOf(InternalServerError);
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(privateClient.client.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should allow maxRetries to be overridden per call', async () => {
+      const client = new BaseQuotientClient('test_api_key', { maxRetries: 5 });
+      const privateClient = client as any;
+      privateClient.client.get = vi.fn().mockRejectedValue(httpError(500));
+
+      const promise = client.get('/test', undefined, undefined, { maxRetries: 0 });
+      await expect(promise).rejects.toBeInstanceOf(InternalServerError);
+      expect(privateClient.client.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry non-retryable status codes', async () => {
+      const client = new BaseQuotientClient('test_api_key');
+      const privateClient = client as any;
+      privateClient.client.get = vi.fn().mockRejectedValue(httpError(400));
+
+      await expect(client.get('/test')).rejects.toBeInstanceOf(BadRequestError);
+      expect(privateClient.client.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for Retry-After before retrying a 429', async () => {
+      const client = new BaseQuotientClient('test_api_key');
+      const privateClient = client as any;
+      privateClient.client.get = vi
+        .fn()
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '5' }))
+        .mockResolvedValue({ data: { result: 'success' } });
+
+      const promise = client.get('/test');
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(privateClient.client.get).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toEqual({ result: 'success' });
+      expect(privateClient.client.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only retry connection errors on POST when marked idempotent', async () => {
+      const client = new BaseQuotientClient('test_api_key');
+      const privateClient = client as any;
+      privateClient.client.post = vi.fn().mockRejectedValue(httpError());
+
+      await expect(client.post('/test', {})).rejects.toBeInstanceOf(APIConnectionError);
+      expect(privateClient.client.post).toHaveBeenCalledTimes(1);
+
+      privateClient.client.post = vi
+        .fn()
+        .mockRejectedValueOnce(httpError())
+        .mockResolvedValue({ data: { result: 'success' } });
+
+      const promise = client.post('/test', {}, undefined, { idempotent: true });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toEqual({ result: 'success' });
+      expect(privateClient.client.post).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('error mapping', () => {
+    it('should throw typed errors with status, detail, request id and path', async () => {
+      const client = new BaseQuotientClient('test_api_key', { maxRetries: 0 });
+      const privateClient = client as any;
+      const config = { url: '/logs', method: 'post' } as any;
+      privateClient.client.post = vi.fn().mockRejectedValue(
+        new AxiosError('Request failed', 'ERR_BAD_REQUEST', config, {}, {
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { 'x-request-id': 'req-123' },
+          data: { detail: 'slow down' },
+          config,
+        } as any)
+      );
+
+      const error: any = await client.post('/logs', {}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.status).toBe(429);
+      expect(error.detail).toBe('slow down');
+      expect(error.requestId).toBe('req-123');
+      expect(error.method).toBe('POST');
+      expect(error.path).toBe('/logs');
+    });
+  });
+
+  describe('token stores', () => {
+    it('should pick the token store from options', () => {
+      expect((new BaseQuotientClient('key') as any).tokenStore).toBeInstanceOf(FileTokenStore);
+      expect(
+        (new BaseQuotientClient('key', { tokenStore: 'memory' }) as any).tokenStore
+      ).toBeInstanceOf(MemoryTokenStore);
+      expect(
+        (new BaseQuotientClient('key', { tokenStore: 'none' }) as any).tokenStore
+      ).toBeInstanceOf(NoopTokenStore);
+
+      const custom = { load: vi.fn(), save: vi.fn() };
+      expect((new BaseQuotientClient('key', { tokenStore: custom }) as any).tokenStore).toBe(
+        custom
+      );
+    });
+
+    it('should read the store once rather than on every request', async () => {
+      const expiry = Math.floor(Date.now() / 1000) + 3600;
+      const store = {
+        load: vi.fn().mockResolvedValue({ token: 'cached', expires_at: expiry, api_key: 'key' }),
+        save: vi.fn(),
+      };
+      const client = new BaseQuotientClient('key', { tokenStore: store });
+      const privateClient = client as any;
+      privateClient.client.get = vi.fn().mockResolvedValue({ data: {} });
+
+      await client.get('/one');
+      await client.get('/two');
+
+      expect(store.load).toHaveBeenCalledOnce();
+      expect(privateClient.client.defaults.headers.common['Authorization']).toBe('Bearer cached');
+    });
+
+    it('should save new tokens to a custom store', async () => {
+      const store = { load: vi.fn().mockReturnValue(null), save: vi.fn() };
+      const client = new BaseQuotientClient('key', { tokenStore: store });
+
+      await (client as any).handleResponse({ headers: { 'x-jwt-token': 'new_token' } });
+
+      expect(store.save).toHaveBeenCalledWith({
+        token: 'new_token',
+        expires_at: expect.any(Number),
+        api_key: 'key',
+      });
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should not hold requests back while one refreshes the token', async () => {
+      const store = { load: vi.fn().mockReturnValue(null), save: vi.fn() };
+      const client = new BaseQuotientClient('key', { tokenStore: store });
+      const privateClient = client as any;
+
+      const pending: (() => void)[] = [];
+      privateClient.client.get = vi
+        .fn()
+        .mockImplementation(
+          () => new Promise((resolve) => pending.push(() => resolve({ data: {} })))
+        );
+
+      const requests = [client.get('/one'), client.get('/two'), client.get('/three')];
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // All requests are in flight at once, without a JWT from the server
+      expect(privateClient.client.get).toHaveBeenCalledTimes(3);
+      pending.forEach((finish) => finish());
+      await Promise.all(requests);
+      // The store was read once on startup and once, shared, for the missing token
+      expect(store.load).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pick up a token refreshed by another process', async () => {
+      const expiry = Math.floor(Date.now() / 1000) + 3600;
+      const store = {
+        load: vi
+          .fn()
+          .mockReturnValueOnce(null)
+          .mockReturnValue({ token: 'shared', expires_at: expiry, api_key: 'key' }),
+        save: vi.fn(),
+      };
+      const client = new BaseQuotientClient('key', { tokenStore: store });
+      const privateClient = client as any;
+      privateClient.client.get = vi.fn().mockResolvedValue({ data: {} });
+
+      await client.get('/test');
+
+      expect(store.load).toHaveBeenCalledTimes(2);
+      expect(privateClient.client.defaults.headers.common['Authorization']).toBe('Bearer shared');
+    });
+
+    it('should not replace a token with one that expires sooner', () => {
+      const store = { load: vi.fn().mockReturnValue(null), save: vi.fn() };
+      const privateClient = new BaseQuotientClient('key', { tokenStore: store }) as any;
+      const now = Math.floor(Date.now() / 1000);
+
+      privateClient.saveToken('newer', now + 7200);
+      privateClient.saveToken('older', now + 3600);
+
+      expect(privateClient.token).toBe('newer');
+      expect(store.save).toHaveBeenCalledOnce();
+    });
+
+    it('should log errors from an async store without failing', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const store = {
+        load: vi.fn().mockRejectedValue(new Error('cache unavailable')),
+        save: vi.fn().mockRejectedValue(new Error('cache unavailable')),
+      };
+      const client = new BaseQuotientClient('key', { tokenStore: store });
+      const privateClient = client as any;
+      privateClient.client.get = vi.fn().mockResolvedValue({ data: { ok: true } });
+
+      await expect(client.get('/test')).resolves.toEqual({ ok: true });
+      privateClient.saveToken('new_token', Math.floor(Date.now() / 1000) + 3600);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(privateClient.token).toBe('new_token');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('[BaseQuotientClient.saveToken] Error: cache unavailable')
+      );
+      consoleErrorSpy.mockRestore();
+    });
+  });
 });
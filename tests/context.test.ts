@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getContextAttributes, getContextTags, withContext } from '../quotientai/context';
+import { TracingResource } from '../quotientai/tracing';
+
+describe('withContext', () => {
+  it('should expose tags only inside the context', () => {
+    expect(withContext({ tags: { requestId: 'r1' } }, () => getContextTags())).toEqual({
+      requestId: 'r1',
+    });
+    expect(getContextTags()).toEqual({});
+  });
+
+  it('should merge nested contexts over the enclosing one', () => {
+    const tags = withContext({ tags: { tenant: 'acme', requestId: 'r1' } }, () =>
+      withContext({ tags: { requestId: 'r2' } }, () => getContextTags())
+    );
+
+    expect(tags).toEqual({ tenant: 'acme', requestId: 'r2' });
+  });
+
+  it('should follow async work and keep concurrent contexts apart', async () => {
+    const seen = await Promise.all(
+      ['r1', 'r2'].map((requestId, i) =>
+        withContext({ tags: { requestId } }, async () => {
+          await new Promise((resolve) => setTimeout(resolve, 10 - i * 10));
+          return getContextTags().requestId;
+        })
+      )
+    );
+
+    expect(seen).toEqual(['r1', 'r2']);
+  });
+
+  it('should convert tags to span attributes', () => {
+    const attributes = withContext(
+      { tags: { userId: 'u1', turn: 2, vip: true, ids: ['a', 'b'], meta: { a: 1 }, none: null } },
+      () => getContextAttributes()
+    );
+
+    expect(attributes).toEqual({
+      userId: 'u1',
+      turn: 2,
+      vip: true,
+      ids: ['a', 'b'],
+      meta: '{"a":1}',
+    });
+  });
+
+  it('should stamp context tags onto spans started by the tracer', async () => {
+    const span = { setAttributes: vi.fn(), setStatus: vi.fn(), end: vi.fn() };
+    const tracing = new TracingResource({});
+    Object.assign(tracing as any, {
+      isConfigured: true,
+      appName: 'test',
+      environment: 'test',
+      tracer: { startActiveSpan: (_name: string, fn: (span: any) => any) => fn(span) },
+    });
+
+    await withContext({ tags: { requestId: 'r1' } }, () => tracing.startSpan('op', async () => {}));
+    tracing.shutdown();
+
+    expect(span.setAttributes).toHaveBeenCalledWith({
+      requestId: 'r1',
+      'app.name': 'test',
+      'app.environment': 'test',
+    });
+  });
+});
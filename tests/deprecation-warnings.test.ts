@@ -130,7 +130,7 @@ describe('Deprecation Warnings', () => {
         environment: 'test',
       });
 
-      const logId = await logger._internalLog({
+      const result = await logger._internalLog({
         userQuery: 'Test query',
         modelOutput: 'Test output',
         documents: ['Test document'],
@@ -151,8 +151,9 @@ describe('Deprecation Warnings', () => {
       );
 
       // Verify log was still created (should be a UUID)
-      expect(logId).toBeTruthy();
-      expect(typeof logId).toBe('string');
+      expect(result.status).toBe('sent');
+      expect(typeof result.id).toBe('string');
+      expect(result.detectionsRequested).toEqual([DetectionType.HALLUCINATION]);
       expect(mockLogsResource.create).toHaveBeenCalled();
     });
 
@@ -167,7 +168,7 @@ describe('Deprecation Warnings', () => {
         detectionSampleRate: 1.0,
       });
 
-      const logId = await logger._internalLog({
+      const result = await logger._internalLog({
         userQuery: 'Test query',
         modelOutput: 'Test output',
         documents: ['Test document'],
@@ -177,7 +178,7 @@ describe('Deprecation Warnings', () => {
       });
 
       // Should return null (failure) and log error
-      expect(logId).toBeNull();
+      expect(result.status).toBe('invalid');
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         expect.stringContaining('Cannot mix deprecated parameters')
       );
@@ -193,14 +194,14 @@ describe('Deprecation Warnings', () => {
       });
 
       // Test without userQuery
-      let logId = await logger._internalLog({
+      let result = await logger._internalLog({
         // userQuery missing
         modelOutput: 'Test output',
         documents: ['Test document'],
         hallucinationDetection: true,
       });
 
-      expect(logId).toBeNull();
+      expect(result.status).toBe('invalid');
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         expect.stringContaining(
           'userQuery and modelOutput are required when using deprecated parameters'
@@ -211,14 +212,14 @@ describe('Deprecation Warnings', () => {
       consoleErrorSpy.mockClear();
 
       // Test without modelOutput
-      logId = await logger._internalLog({
+      result = await logger._internalLog({
         userQuery: 'Test query',
         // modelOutput missing
         documents: ['Test document'],
         hallucinationDetection: true,
       });
 
-      expect(logId).toBeNull();
+      expect(result.status).toBe('invalid');
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         expect.stringContaining(
           'userQuery and modelOutput are required when using deprecated parameters'
@@ -236,7 +237,7 @@ describe('Deprecation Warnings', () => {
         detectionSampleRate: 1.0,
       });
 
-      const logId = await logger._internalLog({
+      const result = await logger._internalLog({
         userQuery: 'Test query',
         modelOutput: 'Test output',
         documents: ['Test document'],
@@ -246,8 +247,8 @@ describe('Deprecation Warnings', () => {
       expect(consoleWarnSpy).not.toHaveBeenCalled();
 
       // Verify log was created (should be a UUID)
-      expect(logId).toBeTruthy();
-      expect(typeof logId).toBe('string');
+      expect(result.status).toBe('sent');
+      expect(typeof result.id).toBe('string');
       expect(mockLogsResource.create).toHaveBeenCalled();
     });
   });
@@ -365,13 +366,13 @@ describe('Deprecation Warnings', () => {
       });
 
       // Test without required fields for hallucination detection
-      const logId = await logger._internalLog({
+      const result = await logger._internalLog({
         userQuery: 'Test query',
         // Missing modelOutput, documents, messageHistory, and instructions
         hallucinationDetection: true,
       });
 
-      expect(logId).toBeNull();
+      expect(result.status).toBe('invalid');
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         expect.stringContaining(
           'userQuery and modelOutput are required when using deprecated parameters'
@@ -390,13 +391,13 @@ describe('Deprecation Warnings', () => {
       });
 
       // Test without required fields for hallucination detection
-      const logId = await logger._internalLog({
+      const result = await logger._internalLog({
         // Missing userQuery
         modelOutput: 'Test output',
         documents: ['Test document'],
       });
 
-      expect(logId).toBeNull();
+      expect(result.status).toBe('invalid');
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         expect.stringContaining('userQuery is required when hallucination detection is enabled')
       );
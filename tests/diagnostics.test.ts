@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { configureDiagnostics, diagnostics, resetDiagnostics } from '../quotientai/diagnostics';
+import { logError, ValidationError } from '../quotientai/exceptions';
+
+describe('diagnostics', () => {
+  const createLogger = () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  });
+
+  let consoleWarnSpy: any;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetDiagnostics();
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should write to the console by default', () => {
+    diagnostics.warn('something odd', { key: 'value' });
+    expect(consoleWarnSpy).toHaveBeenCalledWith('something odd');
+  });
+
+  it('should send messages and structured fields to a custom logger', () => {
+    const logger = createLogger();
+    configureDiagnostics({ logger });
+
+    const error = new ValidationError('bad input', { code: 'required', field: 'appName' });
+    logError(error, 'QuotientLogger.init');
+
+    expect(logger.error).toHaveBeenCalledWith('[QuotientLogger.init] ValidationError: bad input', {
+      error,
+      context: 'QuotientLogger.init',
+    });
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should drop messages below the configured level', () => {
+    const logger = createLogger();
+    configureDiagnostics({ logger, level: 'warn' });
+
+    diagnostics.debug('debug');
+    diagnostics.info('info');
+    diagnostics.warn('warn');
+    diagnostics.error('error');
+
+    expect(logger.debug).not.toHaveBeenCalled();
+    expect(logger.info).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith('warn', undefined);
+    expect(logger.error).toHaveBeenCalledWith('error', undefined);
+  });
+
+  it('should emit nothing in silent mode', () => {
+    const logger = createLogger();
+    configureDiagnostics({ logger, level: 'silent' });
+
+    logError(new Error('boom'));
+    diagnostics.warn('warn');
+
+    expect(logger.error).not.toHaveBeenCalled();
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should keep settings that are not passed', () => {
+    const logger = createLogger();
+    configureDiagnostics({ logger });
+    configureDiagnostics({ level: 'error' });
+
+    diagnostics.warn('filtered');
+    diagnostics.error('kept');
+
+    expect(logger.warn).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith('kept', undefined);
+
+    resetDiagnostics();
+    diagnostics.warn('to the console');
+    expect(consoleWarnSpy).toHaveBeenCalledWith('to the console');
+  });
+
+  it('should not throw when the custom logger does', () => {
+    configureDiagnostics({
+      logger: {
+        ...createLogger(),
+        error: () => {
+          throw new Error('logger is down');
+        },
+      },
+    });
+
+    expect(() => logError(new Error('boom'))).not.toThrow();
+  });
+});
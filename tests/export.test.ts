@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { Writable } from 'stream';
+import { RowWriter, exportColumns, flattenLog, formatCsvRecord } from '../quotientai/export';
+import { Log } from '../quotientai/resources/logs';
+import { DetectionResults } from '../quotientai/types';
+
+describe('export', () => {
+  const log = new Log({
+    id: 'log-1',
+    app_name: 'test-app',
+    environment: 'production',
+    hallucination_detection: true,
+    inconsistency_detection: false,
+    user_query: 'What is the capital of France?',
+    model_output: 'Paris. It has 10 million people.',
+    documents: ['Paris is the capital of France'],
+    message_history: null,
+    instructions: null,
+    tags: { user_id: '123' },
+    detections: ['hallucination'],
+    has_hallucination: true,
+    created_at: '2024-03-20T10:00:00Z',
+  });
+
+  const detections = {
+    log: {},
+    logDocuments: [
+      {
+        id: 'doc-1',
+        content: 'Paris is the capital of France',
+        metadata: { source: 'wiki' },
+        index: 0,
+        isRelevant: true,
+        relevancyReasoning: 'Answers the question',
+      },
+    ],
+    logMessageHistory: null,
+    logInstructions: null,
+    evaluations: [
+      {
+        id: 'eval-1',
+        sentence: 'Paris.',
+        index: 0,
+        isHallucinated: false,
+        fullDocContextHasHallucination: false,
+        supportingDocumentIds: ['doc-1'],
+        supportingMessageHistoryIds: [],
+        supportingInstructionIds: [],
+        fullDocContextEvaluation: { reasoning: 'Supported' },
+      },
+      {
+        id: 'eval-2',
+        sentence: 'It has 10 million people.',
+        index: 1,
+        isHallucinated: true,
+        fullDocContextHasHallucination: true,
+        supportingDocumentIds: [],
+        supportingMessageHistoryIds: [],
+        supportingInstructionIds: [],
+        fullDocContextEvaluation: null,
+      },
+    ],
+    feedback: [],
+  } as unknown as DetectionResults;
+
+  describe('flattenLog', () => {
+    it('should make one row per log with the columns in order', () => {
+      const [row] = flattenLog(log, undefined, 'log');
+
+      expect(Object.keys(row)).toEqual(exportColumns('log', false));
+      expect(row).toMatchObject({
+        logId: 'log-1',
+        createdAt: '2024-03-20T10:00:00.000Z',
+        tags: { user_id: '123' },
+        detections: ['hallucination'],
+        hasHallucination: true,
+        sessionId: null,
+      });
+    });
+
+    it('should summarise detection results in log rows', () => {
+      const [row] = flattenLog(log, detections, 'log');
+
+      expect(Object.keys(row)).toEqual(exportColumns('log', true));
+      expect(row).toMatchObject({
+        evaluatedSentences: 2,
+        hallucinatedSentences: 1,
+        relevantDocuments: 1,
+        irrelevantDocuments: 0,
+        feedback: [],
+      });
+      expect(flattenLog(log, null, 'log')[0].evaluatedSentences).toBeNull();
+    });
+
+    it('should make one row per evaluated sentence', () => {
+      const rows = flattenLog(log, detections, 'sentence');
+
+      expect(rows).toHaveLength(2);
+      expect(Object.keys(rows[0])).toEqual(exportColumns('sentence', true));
+      expect(rows[1]).toMatchObject({
+        logId: 'log-1',
+        sentenceIndex: 1,
+        sentence: 'It has 10 million people.',
+        isHallucinated: true,
+        fullDocContextReasoning: null,
+      });
+      expect(rows[0].fullDocContextReasoning).toBe('Supported');
+    });
+
+    it('should make one row per document', () => {
+      const rows = flattenLog(log, detections, 'document');
+
+      expect(rows).toEqual([
+        expect.objectContaining({
+          logId: 'log-1',
+          documentId: 'doc-1',
+          documentIndex: 0,
+          isRelevant: true,
+          metadata: { source: 'wiki' },
+        }),
+      ]);
+    });
+
+    it('should make no sentence or document rows without detection results', () => {
+      expect(flattenLog(log, null, 'sentence')).toEqual([]);
+      expect(flattenLog(log, null, 'document')).toEqual([]);
+    });
+  });
+
+  describe('formatCsvRecord', () => {
+    it('should quote cells and write lists and objects as JSON', () => {
+      expect(formatCsvRecord(['plain', 'a, b', 'say "hi"', null, 3, ['x'], { a: 1 }])).toBe(
+        'plain,"a, b","say ""hi""",,3,"[""x""]","{""a"":1}"\n'
+      );
+    });
+
+    it('should keep text from being read as a formula', () => {
+      expect(
+        formatCsvRecord(['=HYPERLINK("http://x")', '+1', '-1', '@SUM(A1)', '\tx', -1, 'a=b'])
+      ).toBe(`"'=HYPERLINK(""http://x"")",'+1,'-1,'@SUM(A1),'\tx,-1,a=b\n`);
+    });
+  });
+
+  describe('RowWriter', () => {
+    it('should wait for the stream to drain', async () => {
+      const chunks: string[] = [];
+      const output = new Writable({
+        highWaterMark: 1,
+        write(chunk, _encoding, callback) {
+          chunks.push(chunk.toString());
+          setTimeout(callback, 1);
+        },
+      });
+
+      const writer = new RowWriter(output, 'csv', ['a', 'b']);
+      await writer.writeRow({ a: 1, b: 'x' });
+      await writer.writeRow({ a: 2 });
+
+      expect(chunks).toEqual(['a,b\n', '1,x\n', '2,\n']);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mapRecord, parseCsvRecord, readRecords } from '../quotientai/import';
+import { ValidationError } from '../quotientai/exceptions';
+
+describe('import', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quotient-import-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string) => {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const collect = async (filePath: string, format: 'jsonl' | 'csv') => {
+    const records = [];
+    for await (const record of readRecords(filePath, format)) {
+      records.push(record);
+    }
+    return records;
+  };
+
+  describe('parseCsvRecord', () => {
+    it('should split cells on commas', () => {
+      expect(parseCsvRecord('a,b,,c')).toEqual(['a', 'b', '', 'c']);
+    });
+
+    it('should keep commas, escaped quotes and newlines inside quoted cells', () => {
+      expect(parseCsvRecord('"a, b","say ""hi""","line 1\nline 2"')).toEqual([
+        'a, b',
+        'say "hi"',
+        'line 1\nline 2',
+      ]);
+    });
+  });
+
+  describe('readRecords', () => {
+    it('should read JSONL rows, skipping blank lines', async () => {
+      const filePath = writeFile('logs.jsonl', '{"a":1}\n\n{"a":2}\n');
+
+      const records = await collect(filePath, 'jsonl');
+
+      expect(records.map((record) => [record.row, record.data])).toEqual([
+        [1, { a: 1 }],
+        [2, { a: 2 }],
+      ]);
+    });
+
+    it('should report JSONL rows that are not valid JSON', async () => {
+      const filePath = writeFile('logs.jsonl', '{"a":1}\n{not json\n');
+
+      const records = await collect(filePath, 'jsonl');
+
+      expect(records[1].row).toBe(2);
+      expect(records[1].raw).toBe('{not json');
+      expect(records[1].error).toBeInstanceOf(ValidationError);
+      expect(records[1].error?.code).toBe('invalid_type');
+    });
+
+    it('should read CSV rows by header, including multi-line cells', async () => {
+      const filePath = writeFile(
+        'logs.csv',
+        'user_query,model_output\r\n"What is, Paris?","A city\nin France"\r\nhi,hello\r\n'
+      );
+
+      const records = await collect(filePath, 'csv');
+
+      expect(records.map((record) => record.data)).toEqual([
+        { user_query: 'What is, Paris?', model_output: 'A city\nin France' },
+        { user_query: 'hi', model_output: 'hello' },
+      ]);
+      expect(records.map((record) => record.row)).toEqual([1, 2]);
+    });
+
+    it('should report an unterminated quoted cell', async () => {
+      const filePath = writeFile('logs.csv', 'user_query\n"never closed\n');
+
+      const records = await collect(filePath, 'csv');
+
+      expect(records).toHaveLength(1);
+      expect(records[0].error?.message).toContain('unterminated');
+    });
+  });
+
+  describe('mapRecord', () => {
+    it('should read mapped columns and dotted paths', () => {
+      const entry = mapRecord(
+        {
+          row: 1,
+          raw: '',
+          data: { question: 'Q', answer: 'A', meta: { app: 'app', env: 'prod' } },
+        },
+        {
+          userQuery: 'question',
+          modelOutput: 'answer',
+          appName: 'meta.app',
+          environment: 'meta.env',
+        }
+      );
+
+      expect(entry).toMatchObject({
+        userQuery: 'Q',
+        modelOutput: 'A',
+        appName: 'app',
+        environment: 'prod',
+      });
+    });
+
+    it('should convert CSV cells to the field types', () => {
+      const entry = mapRecord(
+        {
+          row: 1,
+          raw: '',
+          data: {
+            documents: 'plain text document',
+            messageHistory: '[{"role":"user","content":"hi"}]',
+            tags: '{"user_id":"123"}',
+            detections: 'hallucination, document_relevancy',
+            promptTokens: '12',
+            createdAt: '2024-03-20T10:00:00Z',
+          },
+        },
+        {}
+      );
+
+      expect(entry.documents).toEqual(['plain text document']);
+      expect(entry.messageHistory).toEqual([{ role: 'user', content: 'hi' }]);
+      expect(entry.tags).toEqual({ user_id: '123' });
+      expect(entry.detections).toEqual(['hallucination', 'document_relevancy']);
+      expect(entry.promptTokens).toBe(12);
+      expect(entry.createdAt).toBe('2024-03-20T10:00:00.000Z');
+    });
+
+    it('should apply defaults to fields the row does not have', () => {
+      const entry = mapRecord(
+        { row: 1, raw: '', data: { appName: 'row-app' } },
+        {},
+        { appName: 'default-app', environment: 'default-env' }
+      );
+
+      expect(entry.appName).toBe('row-app');
+      expect(entry.environment).toBe('default-env');
+    });
+
+    it('should derive a stable id for rows without one', () => {
+      const record = { row: 3, raw: '{"userQuery":"Q"}', data: { userQuery: 'Q' } };
+
+      const first = mapRecord(record, {});
+      const second = mapRecord(record, {});
+      const other = mapRecord({ ...record, row: 4 }, {});
+
+      expect(first.id).toBe(second.id);
+      expect(other.id).not.toBe(first.id);
+      expect(mapRecord({ ...record, data: { id: 42 } }, {}).id).toBe('42');
+    });
+
+    it('should throw ValidationError for values of the wrong type', () => {
+      const map = (data: Record<string, any>) => () => mapRecord({ row: 1, raw: '', data }, {});
+
+      expect(map({ latencyMs: 'slow' })).toThrow(ValidationError);
+      expect(map({ createdAt: 'yesterday' })).toThrow('createdAt is not a valid date');
+      expect(map({ messageHistory: '[{' })).toThrow('messageHistory is not valid JSON');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { QuotientAI } from '../quotientai/index';
 import { BaseQuotientClient } from '../quotientai/client';
+import { configureDiagnostics, resetDiagnostics } from '../quotientai/diagnostics';
 
 vi.mock('../quotientai/client', () => {
   return {
@@ -43,13 +44,67 @@ describe('QuotientAI', () => {
 
   it('should initialize with the correct api key', () => {
     new QuotientAI('test_api_key');
-    expect(BaseQuotientClient).toHaveBeenCalledWith('test_api_key');
+    expect(BaseQuotientClient).toHaveBeenCalledWith('test_api_key', {});
   });
 
   it('should initialize with the correct api key from environment variable', () => {
     process.env.QUOTIENT_API_KEY = 'test_api_key';
     new QuotientAI();
-    expect(BaseQuotientClient).toHaveBeenCalledWith('test_api_key');
+    expect(BaseQuotientClient).toHaveBeenCalledWith('test_api_key', {});
+  });
+
+  it('should pass client options through to the base client', () => {
+    new QuotientAI('test_api_key', { baseUrl: 'http://localhost:8000/api/v1', timeout: 5000 });
+    expect(BaseQuotientClient).toHaveBeenCalledWith('test_api_key', {
+      baseUrl: 'http://localhost:8000/api/v1',
+      timeout: 5000,
+    });
+  });
+
+  it('should accept an options object in place of the api key', () => {
+    new QuotientAI({ apiKey: 'test_api_key', tokenStorageDir: '/tmp/quotient' });
+    expect(BaseQuotientClient).toHaveBeenCalledWith('test_api_key', {
+      tokenStorageDir: '/tmp/quotient',
+    });
+  });
+
+  it('should make the logger strict when strict is set', () => {
+    const quotient = new QuotientAI('test_api_key', { strict: true });
+    expect(BaseQuotientClient).toHaveBeenCalledWith('test_api_key', {});
+    expect(() => quotient.logger.init({ appName: '', environment: 'test' })).toThrow(
+      'appName must be a non-empty string'
+    );
+  });
+
+  it('should report to the process-wide diagnostics logger', () => {
+    process.env.QUOTIENT_API_KEY = '';
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    configureDiagnostics({ logger, level: 'error' });
+    try {
+      new QuotientAI();
+
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.stringContaining('Could not find API key'),
+        expect.objectContaining({ context: 'QuotientAI.constructor' })
+      );
+    } finally {
+      resetDiagnostics();
+    }
+  });
+
+  it('should add context tags to logs made inside withContext', async () => {
+    const quotient = new QuotientAI('test_api_key');
+    const create = vi.spyOn(quotient.logs, 'create').mockResolvedValue({});
+    quotient.logger.init({ appName: 'test', environment: 'test', tags: { team: 'a' } });
+
+    await quotient.withContext({ tags: { requestId: 'req-1' } }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await quotient.log({ userQuery: 'q', tags: { userId: 'u1' } });
+    });
+    await quotient.log({ userQuery: 'q' });
+
+    expect(create.mock.calls[0][0].tags).toEqual({ team: 'a', requestId: 'req-1', userId: 'u1' });
+    expect(create.mock.calls[1][0].tags).toEqual({ team: 'a' });
   });
 
   it('should log an error if no api key is provided', () => {
@@ -68,4 +123,14 @@ describe('QuotientAI', () => {
     await new Promise((resolve) => setTimeout(resolve, 0));
     expect(mockAuthenticate).toHaveBeenCalledOnce();
   });
+
+  it('should log an error without throwing if authentication fails', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthenticate.mockRejectedValueOnce(new Error('unauthorized'));
+
+    new QuotientAI('test_api_key');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('unauthorized'));
+  });
 });
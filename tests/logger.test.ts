@@ -1,6 +1,27 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { QuotientLogger } from '../quotientai/logger';
 import { DetectionType } from '../quotientai/types';
+import { LogSpool } from '../quotientai/spool';
+import { hashToUnit } from '../quotientai/sampling';
+import {
+  APIConnectionError,
+  BadRequestError,
+  InternalServerError,
+  NotFoundError,
+  ValidationError,
+} from '../quotientai/exceptions';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// A logs resource with mocked methods. createBatch is only there when asked for, as
+// the logger sends queued logs with it when it is available
+const createMockLogsResource = ({ batch = false }: { batch?: boolean } = {}) => ({
+  create: vi.fn(),
+  createBatch: batch ? vi.fn().mockResolvedValue({}) : undefined,
+  list: vi.fn(),
+  getDetections: vi.fn(),
+});
 
 describe('QuotientLogger', () => {
   let consoleErrorSpy: any;
@@ -131,6 +152,39 @@ describe('QuotientLogger', () => {
     expect(mockLogsResource.create).not.toHaveBeenCalled();
   });
 
+  it('should return a LogResult describing each outcome', async () => {
+    const mockLogsResource = { create: vi.fn(), list: vi.fn(), getDetections: vi.fn() };
+    const logger = new QuotientLogger(mockLogsResource);
+    logger.init({
+      appName: 'test_app',
+      environment: 'test_environment',
+      detections: [DetectionType.DOCUMENT_RELEVANCY],
+    });
+
+    const sent = await logger._internalLog({ userQuery: 'query', documents: ['doc'] });
+    expect(sent).toEqual({
+      status: 'sent',
+      id: expect.any(String),
+      detectionsRequested: [DetectionType.DOCUMENT_RELEVANCY],
+    });
+
+    const invalid = await logger._internalLog({ userQuery: 'query' });
+    expect(invalid).toEqual({
+      status: 'invalid',
+      errors: ['documents must be provided when document_relevancy detection is enabled'],
+      detectionsRequested: [DetectionType.DOCUMENT_RELEVANCY],
+    });
+
+    vi.spyOn(logger as any, 'shouldSample').mockReturnValue(false);
+    const sampledOut = await logger._internalLog({ userQuery: 'query', documents: ['doc'] });
+    expect(sampledOut).toEqual({
+      status: 'sampled_out',
+      detectionsRequested: [DetectionType.DOCUMENT_RELEVANCY],
+    });
+    expect(await (logger as any).log({ userQuery: 'query', documents: ['doc'] })).toBeUndefined();
+    expect(mockLogsResource.create).toHaveBeenCalledOnce();
+  });
+
   it('should verify shouldSample behavior based on Math.random', () => {
     const mockLogsResource = { create: vi.fn(), list: vi.fn(), getDetections: vi.fn() };
     const logger = new QuotientLogger(mockLogsResource);
@@ -336,12 +390,16 @@ describe('QuotientLogger', () => {
       expect(privateLogger.isValidLogDocument({})).toEqual({
         valid: false,
         error: "Missing required 'pageContent' property",
+        code: 'required',
+        property: 'pageContent',
       });
 
       // pageContent not a string
       expect(privateLogger.isValidLogDocument({ pageContent: 123 })).toEqual({
         valid: false,
         error: "The 'pageContent' property must be a string, found number",
+        code: 'invalid_type',
+        property: 'pageContent',
       });
 
       // metadata not an object
@@ -350,6 +408,8 @@ describe('QuotientLogger', () => {
       ).toEqual({
         valid: false,
         error: "The 'metadata' property must be an object, found string",
+        code: 'invalid_type',
+        property: 'metadata',
       });
 
       // null metadata is valid
@@ -358,4 +418,1169 @@ describe('QuotientLogger', () => {
       });
     });
   });
+
+  describe('Sampling', () => {
+    // Find keys whose hash is below or above a threshold
+    const keyBelow = (threshold: number) =>
+      Array.from({ length: 100 }, (_, i) => `key-${i}`).find((key) => hashToUnit(key) < threshold)!;
+    const keyAbove = (threshold: number) =>
+      Array.from({ length: 100 }, (_, i) => `key-${i}`).find(
+        (key) => hashToUnit(key) >= threshold
+      )!;
+
+    it('should keep or drop every log with the same key', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test', sampleRate: 0.5, sampleBy: 'userId' });
+      const randomSpy = vi.spyOn(Math, 'random');
+
+      const kept = keyBelow(0.5);
+      const dropped = keyAbove(0.5);
+      for (let i = 0; i < 3; i++) {
+        expect((await logger._internalLog({ userQuery: 'q', tags: { userId: kept } })).status).toBe(
+          'sent'
+        );
+        expect(
+          (await logger._internalLog({ userQuery: 'q', tags: { userId: dropped } })).status
+        ).toBe('sampled_out');
+      }
+
+      expect(mockLogsResource.create).toHaveBeenCalledTimes(3);
+      expect(randomSpy).not.toHaveBeenCalled();
+      randomSpy.mockRestore();
+    });
+
+    it('should prefer a per-log sampleKey and accept a sampleBy function', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      const sampleBy = vi.fn().mockReturnValue(keyAbove(0.5));
+      logger.init({ appName: 'test', environment: 'test', sampleRate: 0.5, sampleBy });
+
+      expect((await logger._internalLog({ userQuery: 'q' })).status).toBe('sampled_out');
+      expect(sampleBy).toHaveBeenCalledWith(expect.objectContaining({ userQuery: 'q' }));
+
+      const result = await logger._internalLog({ userQuery: 'q', sampleKey: keyBelow(0.5) });
+      expect(result.status).toBe('sent');
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.not.objectContaining({ sampleKey: expect.anything() })
+      );
+    });
+
+    it('should sample at random when sampleBy throws', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      const sampleBy = () => {
+        throw new Error('no user');
+      };
+      logger.init({ appName: 'test', environment: 'test', sampleRate: 0.5, sampleBy });
+      const randomSpy = vi.spyOn(Math, 'random').mockReturnValue(0.1);
+
+      expect((await logger._internalLog({ userQuery: 'q' })).status).toBe('sent');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('[QuotientLogger.sampleBy] Error: no user')
+      );
+      randomSpy.mockRestore();
+    });
+
+    it('should decide on detections by key', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        detections: [DetectionType.DOCUMENT_RELEVANCY],
+        detectionSampleRate: 0.5,
+      });
+      const params = { userQuery: 'q', documents: ['doc'] };
+
+      const detected = await logger._internalLog({ ...params, sampleKey: keyBelow(0.5) });
+      expect(detected.detectionsRequested).toEqual([DetectionType.DOCUMENT_RELEVANCY]);
+      expect(mockLogsResource.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({ detections: ['document_relevancy'], detectionSampleRate: 1.0 })
+      );
+
+      const skipped = await logger._internalLog({ ...params, sampleKey: keyAbove(0.5) });
+      expect(skipped.status).toBe('sent');
+      expect(skipped.detectionsRequested).toEqual([]);
+      expect(mockLogsResource.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({ detections: [], detectionSampleRate: 0.0 })
+      );
+    });
+
+    it('should apply the first matching sampling rule', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        sampleRate: 0.5,
+        samplingRules: [
+          {
+            match: { tags: { feature: 'checkout' } },
+            detections: [DetectionType.HALLUCINATION],
+            detectionSampleRate: 1.0,
+          },
+          { match: { tags: { tier: 'enterprise' } }, sampleRate: 1.0 },
+          { match: { tags: { tier: 'free' } }, sampleRate: 0.0 },
+        ],
+      });
+
+      const enterprise = await logger._internalLog({
+        userQuery: 'q',
+        tags: { tier: 'enterprise' },
+        sampleKey: keyAbove(0.5),
+      });
+      expect(enterprise.status).toBe('sent');
+
+      const free = await logger._internalLog({
+        userQuery: 'q',
+        tags: { tier: 'free' },
+        sampleKey: keyBelow(0.5),
+      });
+      expect(free.status).toBe('sampled_out');
+
+      vi.spyOn(Math, 'random').mockReturnValue(0.1);
+      const checkout = await logger._internalLog({
+        userQuery: 'q',
+        modelOutput: 'a',
+        documents: ['doc'],
+        tags: { feature: 'checkout' },
+      });
+      vi.spyOn(Math, 'random').mockRestore();
+      expect(checkout.detectionsRequested).toEqual([DetectionType.HALLUCINATION]);
+      expect(mockLogsResource.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({ detections: ['hallucination'], detectionSampleRate: 1.0 })
+      );
+    });
+
+    it('should validate required fields for detections added by a rule', async () => {
+      const logger = new QuotientLogger(createMockLogsResource());
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        samplingRules: [{ detections: [DetectionType.DOCUMENT_RELEVANCY] }],
+      });
+
+      const result = await logger._internalLog({ userQuery: 'q' });
+      expect(result.status).toBe('invalid');
+    });
+
+    it('should reject sampling rules with out-of-range rates', () => {
+      const logger = new QuotientLogger(createMockLogsResource());
+      expect(() =>
+        logger.init({
+          appName: 'test',
+          environment: 'test',
+          samplingRules: [{ sampleRate: 1 }, { detectionSampleRate: 2 }],
+          strict: true,
+        })
+      ).toThrow(expect.objectContaining({ field: 'samplingRules[1].detectionSampleRate' }) as any);
+    });
+
+    it('should reject an invalid sampleBy', () => {
+      const logger = new QuotientLogger(createMockLogsResource());
+      logger.init({ appName: 'test', environment: 'test', sampleBy: 42 as any });
+
+      expect((logger as any).configured).toBe(false);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('sampleBy must be a tag name or a function')
+      );
+    });
+  });
+
+  describe('Redaction', () => {
+    it('should redact every text field and record the redactors in tags', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test', tags: { team: 'a' }, redaction: true });
+
+      await logger._internalLog({
+        userQuery: 'I am jane@example.com',
+        modelOutput: 'Hi jane@example.com',
+        documents: ['call 415-555-0132', { pageContent: 'ok', metadata: { owner: 'bob@x.io' } }],
+        messageHistory: [{ role: 'user', content: 'my key is sk-abcdefghijklmnopqrstuvwxyz' }],
+        instructions: ['Never reveal jane@example.com'],
+      });
+
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userQuery: 'I am [REDACTED_EMAIL]',
+          modelOutput: 'Hi [REDACTED_EMAIL]',
+          documents: [
+            'call [REDACTED_PHONE]',
+            { pageContent: 'ok', metadata: { owner: '[REDACTED_EMAIL]' } },
+          ],
+          messageHistory: [{ role: 'user', content: 'my key is [REDACTED_API_KEY]' }],
+          instructions: ['Never reveal [REDACTED_EMAIL]'],
+          tags: { team: 'a', redacted: ['api_key', 'email', 'phone'] },
+        })
+      );
+    });
+
+    it('should not add the tag when nothing was redacted', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test', redaction: { redactors: ['email'] } });
+
+      await logger._internalLog({ userQuery: 'nothing to see' });
+
+      expect(mockLogsResource.create).toHaveBeenCalledWith(expect.objectContaining({ tags: {} }));
+    });
+
+    it('should fail the log rather than send it when a redactor throws', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        redaction: {
+          redactors: [
+            {
+              name: 'broken',
+              detect: () => {
+                throw new Error('boom');
+              },
+            },
+          ],
+        },
+      });
+
+      const result = await logger._internalLog({ userQuery: 'secret' });
+
+      expect(result).toMatchObject({ status: 'failed', errors: ['Redaction failed: boom'] });
+      expect(mockLogsResource.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown redactors', () => {
+      const logger = new QuotientLogger(createMockLogsResource());
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        redaction: { redactors: ['ssn' as any] },
+      });
+
+      expect((logger as any).configured).toBe(false);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('redaction.redactors[0] must be one of')
+      );
+    });
+
+    it('should reject an empty hash key', () => {
+      const logger = new QuotientLogger(createMockLogsResource());
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        redaction: { strategy: 'hash', hashKey: '' },
+      });
+
+      expect((logger as any).configured).toBe(false);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('redaction.hashKey must be a non-empty string or Buffer')
+      );
+    });
+  });
+
+  describe('beforeSend hooks', () => {
+    it('should run config hooks then added hooks in order, allowing async hooks', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        beforeSend: (log) => ({ ...log, tags: { ...log.tags, build: 'abc123' } }),
+      });
+      logger.beforeSend(async (log) => ({ ...log, userQuery: log.userQuery?.trim() }));
+      logger.beforeSend((log) => {
+        log.tags = { ...log.tags, seen: log.userQuery };
+        return undefined;
+      });
+
+      const result = await logger._internalLog({ userQuery: '  hello  ' });
+
+      expect(result.status).toBe('sent');
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: result.id,
+          userQuery: 'hello',
+          tags: { build: 'abc123', seen: 'hello' },
+        })
+      );
+    });
+
+    it('should drop logs when a hook returns null', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test' });
+      const remove = logger.beforeSend((log) => (log.tags?.internal ? null : log));
+
+      const result = await logger._internalLog({ userQuery: 'q', tags: { internal: true } });
+      expect(result.status).toBe('dropped');
+      expect(mockLogsResource.create).not.toHaveBeenCalled();
+
+      remove();
+      await logger._internalLog({ userQuery: 'q', tags: { internal: true } });
+      expect(mockLogsResource.create).toHaveBeenCalledOnce();
+    });
+
+    it('should skip a hook that throws and keep logging', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        beforeSend: [
+          () => {
+            throw new Error('bad hook');
+          },
+          async () => Promise.reject(new Error('bad async hook')),
+          (log) => ({ ...log, modelOutput: 'enriched' }),
+        ],
+      });
+
+      const result = await logger._internalLog({ userQuery: 'q' });
+
+      expect(result.status).toBe('sent');
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userQuery: 'q', modelOutput: 'enriched' })
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('[QuotientLogger.beforeSend[0]] Error: bad hook')
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('[QuotientLogger.beforeSend[1]] Error: bad async hook')
+      );
+    });
+
+    it('should discard the edits of a hook that throws', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        tags: { team: 'a' },
+        beforeSend: [
+          (log) => {
+            log.userQuery = 'half-edited';
+            log.tags!.team = 'b';
+            log.documents!.push('leaked');
+            log.messageHistory![0].content = 'leaked';
+            throw new Error('bad hook');
+          },
+          (log) => {
+            log.modelOutput = 'edited in place';
+            log.instructions!.push('added');
+            return undefined;
+          },
+        ],
+      });
+      const documents = ['doc'];
+      const messageHistory = [{ role: 'user', content: 'hi' }];
+      const instructions = ['be brief'];
+
+      await logger._internalLog({ userQuery: 'q', documents, messageHistory, instructions });
+
+      const sent = mockLogsResource.create.mock.calls[0][0];
+      expect(sent.userQuery).toBe('q');
+      expect(sent.tags.team).toBe('a');
+      expect(sent.documents).toEqual(['doc']);
+      expect(sent.messageHistory).toEqual([{ role: 'user', content: 'hi' }]);
+      expect(sent.modelOutput).toBe('edited in place');
+      expect(sent.instructions).toEqual(['be brief', 'added']);
+      // The caller's objects are never edited
+      expect(documents).toEqual(['doc']);
+      expect(messageHistory).toEqual([{ role: 'user', content: 'hi' }]);
+      expect(instructions).toEqual(['be brief']);
+    });
+
+    it('should redact what hooks add', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        redaction: { redactors: ['email'] },
+        beforeSend: (log) => ({ ...log, instructions: ['Contact ops@example.com'] }),
+      });
+
+      await logger._internalLog({ userQuery: 'q' });
+
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({ instructions: ['Contact [REDACTED_EMAIL]'] })
+      );
+    });
+  });
+
+  describe('Payload limits', () => {
+    it('should truncate logs and record the truncated fields in tags', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        tags: { team: 'a' },
+        limits: { maxDocuments: 1, maxDocumentLength: 4 },
+      });
+
+      const result = await logger._internalLog({
+        userQuery: 'q',
+        documents: ['first document', 'second document'],
+      });
+
+      expect(result.status).toBe('sent');
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          documents: ['firs'],
+          tags: { team: 'a', truncated: ['documents'] },
+        })
+      );
+    });
+
+    it('should not add the tag when nothing was truncated', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test', limits: { maxDocuments: 5 } });
+
+      await logger._internalLog({ userQuery: 'q', documents: ['doc'] });
+
+      expect(mockLogsResource.create).toHaveBeenCalledWith(expect.objectContaining({ tags: {} }));
+    });
+
+    it('should redact before truncating', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        redaction: { redactors: ['email'] },
+        limits: { maxDocumentLength: 14 },
+      });
+
+      await logger._internalLog({ userQuery: 'q', documents: ['jane@example.com wrote'] });
+
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({ documents: ['[REDACTED_EMAI'] })
+      );
+    });
+
+    it('should warn when a log is still too large after truncation', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      logger.init({ appName: 'test', environment: 'test', limits: { maxPayloadBytes: 10 } });
+
+      const result = await logger._internalLog({ userQuery: 'q' });
+
+      expect(result.status).toBe('sent');
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('still larger than limits.maxPayloadBytes')
+      );
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should reject invalid limits', () => {
+      const logger = new QuotientLogger(createMockLogsResource());
+      logger.init({ appName: 'test', environment: 'test', limits: { maxDocuments: -1 } });
+
+      expect((logger as any).configured).toBe(false);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('limits.maxDocuments must be a non-negative integer')
+      );
+    });
+  });
+
+  describe('Child loggers', () => {
+    it('should merge tags and override detection defaults through the parent', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        tags: { team: 'a', route: 'root' },
+        detections: [DetectionType.HALLUCINATION],
+        detectionSampleRate: 0.1,
+      });
+      const search = logger.child({
+        tags: { route: 'search' },
+        detections: [DetectionType.DOCUMENT_RELEVANCY],
+        detectionSampleRate: 0.5,
+      });
+
+      const result = await search.log({ userQuery: 'q', documents: ['doc'], tags: { user: 'u1' } });
+
+      expect(result.status).toBe('sent');
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          appName: 'test',
+          tags: { team: 'a', route: 'search', user: 'u1' },
+          detections: ['document_relevancy'],
+          detectionSampleRate: 0.5,
+        })
+      );
+    });
+
+    it('should not affect the parent or sibling loggers', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test', tags: { team: 'a' } });
+      const chat = logger.child({ tags: { route: 'chat' } });
+      logger.child({ tags: { route: 'search' }, detectionSampleRate: 1 });
+
+      await chat.log({ userQuery: 'q' });
+      await logger._internalLog({ userQuery: 'q' });
+
+      expect(mockLogsResource.create.mock.calls[0][0]).toMatchObject({
+        tags: { team: 'a', route: 'chat' },
+        detectionSampleRate: 0,
+      });
+      expect(mockLogsResource.create.mock.calls[1][0].tags).toEqual({ team: 'a' });
+    });
+
+    it('should inherit scope in nested children and follow parent reconfiguration', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      const nested = logger
+        .child({ tags: { feature: 'rag' }, detectionSampleRate: 0.3 })
+        .child({ tags: { step: 'answer' } });
+      logger.init({ appName: 'test', environment: 'prod' });
+
+      await nested.log({ userQuery: 'q' });
+
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          environment: 'prod',
+          tags: { feature: 'rag', step: 'answer' },
+          detectionSampleRate: 0.3,
+        })
+      );
+    });
+
+    it('should let sampling rules override child detections', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        samplingRules: [{ match: { tags: { tier: 'free' } }, detectionSampleRate: 0 }],
+      });
+
+      await logger
+        .child({ tags: { tier: 'free' }, detectionSampleRate: 1 })
+        .log({ userQuery: 'q' });
+
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({ detectionSampleRate: 0 })
+      );
+    });
+  });
+
+  describe('Sessions', () => {
+    it('should number turns and accumulate message history', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test' });
+      const session = logger.session('sess-1', { conversationId: 'conv-1' });
+
+      await session.log({ userQuery: 'Hi', modelOutput: 'Hello!' });
+      await session.log({ userQuery: 'Capital of France?', modelOutput: 'Paris.' });
+
+      expect(mockLogsResource.create.mock.calls[0][0]).toMatchObject({
+        sessionId: 'sess-1',
+        conversationId: 'conv-1',
+        turnIndex: 0,
+        messageHistory: undefined,
+      });
+      expect(mockLogsResource.create.mock.calls[1][0]).toMatchObject({
+        sessionId: 'sess-1',
+        turnIndex: 1,
+        messageHistory: [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello!' },
+        ],
+      });
+      expect(session.turnIndex).toBe(2);
+      expect(session.messageHistory).toHaveLength(4);
+    });
+
+    it('should keep turn order for concurrent logs and explicit message history', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test' });
+      const session = logger.session('sess-1', {
+        messageHistory: [{ role: 'system', content: 's' }],
+      });
+
+      await Promise.all([
+        session.log({ userQuery: 'a' }),
+        session.log({ userQuery: 'b', messageHistory: [{ role: 'user', content: 'custom' }] }),
+      ]);
+
+      const logs = mockLogsResource.create.mock.calls.map((call) => call[0]);
+      expect(logs.map((log) => log.turnIndex)).toEqual([0, 1]);
+      expect(logs[0].messageHistory).toEqual([{ role: 'system', content: 's' }]);
+      expect(logs[1].messageHistory).toEqual([{ role: 'user', content: 'custom' }]);
+    });
+
+    it('should apply the scope of a child logger', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test' });
+
+      await logger
+        .child({ tags: { route: 'chat' } })
+        .session('sess-1')
+        .log({ userQuery: 'q' });
+
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'sess-1', tags: { route: 'chat' } })
+      );
+    });
+
+    it('should reject an invalid turnIndex', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test' });
+
+      const result = await logger._internalLog({ userQuery: 'q', turnIndex: -1 });
+
+      expect(result).toMatchObject({
+        status: 'invalid',
+        errors: ['turnIndex must be a non-negative integer'],
+      });
+      expect(mockLogsResource.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Usage and cost', () => {
+    it('should send usage fields and compute the cost from the price table', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        prices: { 'gpt-4o': { promptPerMillion: 2.5, completionPerMillion: 10 } },
+      });
+
+      await logger._internalLog({
+        userQuery: 'q',
+        model: 'gpt-4o-2024-08-06',
+        provider: 'openai',
+        promptTokens: 1000,
+        completionTokens: 500,
+        latencyMs: 812,
+      });
+      await logger._internalLog({ userQuery: 'q', model: 'gpt-4o', promptTokens: 10, cost: 1 });
+
+      expect(mockLogsResource.create.mock.calls[0][0]).toMatchObject({
+        model: 'gpt-4o-2024-08-06',
+        provider: 'openai',
+        promptTokens: 1000,
+        completionTokens: 500,
+        latencyMs: 812,
+        cost: 0.0075,
+      });
+      expect(mockLogsResource.create.mock.calls[1][0].cost).toBe(1);
+    });
+
+    it('should reject negative usage values', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test', environment: 'test' });
+
+      const result = await logger._internalLog({ userQuery: 'q', promptTokens: -5 });
+
+      expect(result).toMatchObject({
+        status: 'invalid',
+        errors: ['promptTokens must be a non-negative number'],
+      });
+    });
+
+    it('should reject invalid prices', () => {
+      const logger = new QuotientLogger(createMockLogsResource());
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        prices: { 'gpt-4o': { promptPerMillion: 2.5 } as any },
+      });
+
+      expect((logger as any).configured).toBe(false);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "prices['gpt-4o'].completionPerMillion must be a non-negative number"
+        )
+      );
+    });
+  });
+
+  describe('Feedback', () => {
+    it('should send feedback with a generated id', async () => {
+      const feedbackResource = { create: vi.fn().mockResolvedValue({}) };
+      const logger = new QuotientLogger(createMockLogsResource(), null, false, feedbackResource);
+
+      const result = await logger._internalFeedback('log-1', { thumbs: 'up', comment: 'Great' });
+
+      expect(result.status).toBe('sent');
+      expect(feedbackResource.create).toHaveBeenCalledWith(
+        'log-1',
+        {
+          id: result.id,
+          createdAt: expect.any(String),
+          thumbs: 'up',
+          comment: 'Great',
+        },
+        {}
+      );
+    });
+
+    it('should pass request options to the API call', async () => {
+      const feedbackResource = { create: vi.fn().mockResolvedValue({}) };
+      const logger = new QuotientLogger(createMockLogsResource(), null, false, feedbackResource);
+
+      await logger._internalFeedback('log-1', { thumbs: 'up' }, { maxRetries: 0 });
+
+      expect(feedbackResource.create).toHaveBeenCalledWith('log-1', expect.any(Object), {
+        maxRetries: 0,
+      });
+    });
+
+    it('should redact comments when redaction is enabled', async () => {
+      const feedbackResource = { create: vi.fn().mockResolvedValue({}) };
+      const logger = new QuotientLogger(createMockLogsResource(), null, false, feedbackResource);
+      logger.init({ appName: 'test', environment: 'test', redaction: { redactors: ['email'] } });
+
+      await logger._internalFeedback('log-1', { comment: 'Email me at jane@example.com' });
+
+      expect(feedbackResource.create.mock.calls[0][1].comment).toBe('Email me at [REDACTED_EMAIL]');
+    });
+
+    it('should not send a comment when redaction fails', async () => {
+      const feedbackResource = { create: vi.fn().mockResolvedValue({}) };
+      const logger = new QuotientLogger(createMockLogsResource(), null, false, feedbackResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        redaction: {
+          redactors: [
+            {
+              name: 'broken',
+              detect: () => {
+                throw new Error('boom');
+              },
+            },
+          ],
+        },
+      });
+
+      const result = await logger._internalFeedback('log-1', { comment: 'secret' });
+
+      expect(result).toEqual({ status: 'failed', errors: ['Redaction failed: boom'] });
+      expect(feedbackResource.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject feedback without a verdict, rating or comment', async () => {
+      const feedbackResource = { create: vi.fn() };
+      const logger = new QuotientLogger(createMockLogsResource(), null, false, feedbackResource);
+
+      expect(await logger._internalFeedback('log-1', { userId: 'u1' })).toEqual({
+        status: 'invalid',
+        errors: ['Feedback must include thumbs, a rating or a comment'],
+      });
+      expect(await logger._internalFeedback('log-1', { thumbs: 'sideways' as any })).toEqual({
+        status: 'invalid',
+        errors: ["thumbs must be 'up' or 'down'"],
+      });
+      expect(feedbackResource.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw validation errors in strict mode', async () => {
+      const logger = new QuotientLogger(createMockLogsResource(), null, true, { create: vi.fn() });
+
+      await expect(logger._internalFeedback('', { thumbs: 'up' })).rejects.toMatchObject({
+        code: 'required',
+        field: 'logId',
+      });
+    });
+
+    it('should report API errors as failed', async () => {
+      const feedbackResource = { create: vi.fn().mockRejectedValue(new Error('server error')) };
+      const logger = new QuotientLogger(createMockLogsResource(), null, false, feedbackResource);
+
+      expect(await logger._internalFeedback('log-1', { rating: 5 })).toEqual({
+        status: 'failed',
+        errors: ['server error'],
+      });
+    });
+  });
+
+  describe('Strict mode', () => {
+    const catchError = (fn: () => unknown): any => {
+      try {
+        fn();
+      } catch (error) {
+        return error;
+      }
+      throw new Error('expected an error');
+    };
+
+    it('should throw ValidationError with a code and field from init()', () => {
+      const logger = new QuotientLogger(createMockLogsResource());
+
+      const error = catchError(() =>
+        logger.init({ appName: 'test', environment: 'test', sampleRate: 2, strict: true })
+      );
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.code).toBe('out_of_range');
+      expect(error.field).toBe('sampleRate');
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      const batchError = catchError(() =>
+        logger.init({
+          appName: 'test',
+          environment: 'test',
+          batch: { maxBatchSize: 0 },
+          strict: true,
+        })
+      );
+      expect(batchError.field).toBe('batch.maxBatchSize');
+    });
+
+    it('should throw from log() for missing detection fields and bad documents', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        detections: [DetectionType.HALLUCINATION],
+        strict: true,
+      });
+
+      await expect(
+        logger._internalLog({ modelOutput: 'output', documents: ['doc'] })
+      ).rejects.toMatchObject({ name: 'ValidationError', code: 'required', field: 'userQuery' });
+
+      await expect(
+        logger._internalLog({
+          userQuery: 'query',
+          modelOutput: 'output',
+          documents: ['doc', { pageContent: 'ok', metadata: 'bad' } as any],
+        })
+      ).rejects.toMatchObject({ code: 'invalid_type', field: 'documents[1].metadata' });
+
+      expect(mockLogsResource.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw when logging before init() with a strict client', async () => {
+      const logger = new QuotientLogger(createMockLogsResource(), null, true);
+
+      await expect(logger._internalLog({ userQuery: 'query' })).rejects.toMatchObject({
+        code: 'not_configured',
+      });
+    });
+
+    it('should let init() turn off strict mode set by the client', async () => {
+      const logger = new QuotientLogger(createMockLogsResource(), null, true);
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        detections: [DetectionType.DOCUMENT_RELEVANCY],
+        strict: false,
+      });
+
+      const result = await logger._internalLog({ userQuery: 'query' });
+      expect(result.status).toBe('invalid');
+    });
+  });
+
+  describe('Batching', () => {
+    it('should queue logs instead of sending them immediately', async () => {
+      const mockLogsResource = createMockLogsResource({ batch: true });
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test_app', environment: 'test_environment', batch: true });
+
+      const { status, id } = await logger._internalLog({ userQuery: 'test', modelOutput: 'test' });
+
+      expect(status).toBe('sent');
+      expect(mockLogsResource.create).not.toHaveBeenCalled();
+      expect(mockLogsResource.createBatch).not.toHaveBeenCalled();
+      expect(logger.getQueueStats()).toEqual({ queued: 1, sent: 0, spooled: 0, dropped: 0 });
+
+      await logger.flush();
+
+      expect(mockLogsResource.createBatch).toHaveBeenCalledWith([
+        expect.objectContaining({ id, appName: 'test_app', userQuery: 'test' }),
+      ]);
+      expect(logger.getQueueStats()).toEqual({ queued: 0, sent: 1, spooled: 0, dropped: 0 });
+      await logger.shutdown();
+    });
+
+    it('should send logs one by one if the resource has no batch endpoint', async () => {
+      const mockLogsResource = { create: vi.fn(), list: vi.fn(), getDetections: vi.fn() };
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test_app', environment: 'test_environment', batch: true });
+
+      await logger._internalLog({ userQuery: 'first' });
+      await logger._internalLog({ userQuery: 'second' });
+      await logger.shutdown();
+
+      expect(mockLogsResource.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report a failure and count the drop when the queue is full', async () => {
+      const mockLogsResource = createMockLogsResource({ batch: true });
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({
+        appName: 'test_app',
+        environment: 'test_environment',
+        batch: { maxBatchSize: 5, maxQueueSize: 5, flushInterval: 60000 },
+      });
+
+      // The first batch never completes, so the next five logs fill the queue
+      mockLogsResource.createBatch!.mockImplementation(() => new Promise(() => {}));
+      for (let i = 0; i < 10; i++) {
+        await logger._internalLog({ userQuery: `query ${i}` });
+      }
+
+      const result = await logger._internalLog({ userQuery: 'overflow' });
+
+      expect(result.status).toBe('failed');
+      expect(result.errors).toEqual([expect.stringContaining('Log queue is full')]);
+      expect(logger.getQueueStats().dropped).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Log queue is full'));
+    });
+
+    it('should reject invalid batch configuration', () => {
+      const logger = new QuotientLogger(createMockLogsResource({ batch: true }));
+      const privateLogger = logger as any;
+
+      logger.init({ appName: 'test', environment: 'test', batch: { maxBatchSize: 0 } });
+      expect(privateLogger.configured).toBe(false);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('batch.maxBatchSize must be at least 1')
+      );
+
+      logger.init({
+        appName: 'test',
+        environment: 'test',
+        batch: { maxBatchSize: 10, maxQueueSize: 5 },
+      });
+      expect(privateLogger.configured).toBe(false);
+    });
+  });
+
+  describe('Polling for detections', () => {
+    const statusError = (ErrorClass: typeof NotFoundError, status: number) =>
+      new ErrorClass('request failed', {
+        status,
+        config: { url: '/logs/log-1/rca', method: 'get' },
+        headers: {},
+      } as any);
+
+    it('should stop polling on errors that retrying cannot fix', async () => {
+      const mockLogsResource = createMockLogsResource();
+      mockLogsResource.getDetections.mockRejectedValue(statusError(NotFoundError, 404));
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test_app', environment: 'test_environment' });
+
+      const results = await logger._internalPollForDetection('bad-id', 5, 0.01);
+
+      expect(results).toBeNull();
+      expect(mockLogsResource.getDetections).toHaveBeenCalledOnce();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('NotFoundError'));
+    });
+
+    it('should keep polling through transient errors', async () => {
+      const mockLogsResource = createMockLogsResource();
+      const completed = { log: { status: 'log_created_and_detection_completed' } };
+      mockLogsResource.getDetections
+        .mockRejectedValueOnce(statusError(InternalServerError, 503))
+        .mockResolvedValue(completed);
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test_app', environment: 'test_environment' });
+
+      const results = await logger._internalPollForDetection('log-1', 5, 0.01);
+
+      expect(results).toBe(completed);
+      expect(mockLogsResource.getDetections).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Spooling', () => {
+    let directory: string;
+    const connectionError = () => new APIConnectionError('connection error.', { url: '/logs' });
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quotient-logger-spool-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should spool logs that fail with a transient error', async () => {
+      const mockLogsResource = {
+        create: vi.fn().mockRejectedValue(connectionError()),
+        list: vi.fn(),
+        getDetections: vi.fn(),
+      };
+      const spool = new LogSpool(directory);
+      const logger = new QuotientLogger(mockLogsResource, spool);
+      logger.init({ appName: 'test_app', environment: 'test_environment' });
+
+      const { status, id } = await logger._internalLog({ userQuery: 'test', modelOutput: 'test' });
+
+      expect(status).toBe('sent');
+      expect(spool.hasPending()).toBe(true);
+
+      // Replay preserves the original id and timestamp
+      const createdAt = mockLogsResource.create.mock.calls[0][0].createdAt;
+      mockLogsResource.create.mockReset().mockResolvedValue({});
+      expect(await logger.replaySpool()).toBe(1);
+      expect(mockLogsResource.create).toHaveBeenCalledWith(
+        expect.objectContaining({ id, createdAt, appName: 'test_app' })
+      );
+      expect(spool.hasPending()).toBe(false);
+    });
+
+    it('should count batches that fail with a transient error as spooled, not sent', async () => {
+      const mockLogsResource = {
+        create: vi.fn(),
+        createBatch: vi.fn().mockRejectedValue(connectionError()),
+        list: vi.fn(),
+        getDetections: vi.fn(),
+      };
+      const spool = new LogSpool(directory);
+      const logger = new QuotientLogger(mockLogsResource, spool);
+      logger.init({ appName: 'test_app', environment: 'test_environment', batch: true });
+
+      await logger._internalLog({ userQuery: 'test', modelOutput: 'test' });
+      await logger.flush();
+
+      expect(spool.hasPending()).toBe(true);
+      expect(logger.getQueueStats()).toEqual({ queued: 0, sent: 0, spooled: 1, dropped: 0 });
+      await logger.shutdown();
+    });
+
+    it('should spool feedback that fails with a transient error and replay it', async () => {
+      const feedbackResource = { create: vi.fn().mockRejectedValue(connectionError()) };
+      const spool = new LogSpool(directory);
+      const logger = new QuotientLogger(
+        { create: vi.fn(), list: vi.fn(), getDetections: vi.fn() },
+        spool,
+        false,
+        feedbackResource
+      );
+
+      const { status, id } = await logger._internalFeedback('log-1', { thumbs: 'down' });
+
+      expect(status).toBe('sent');
+      expect(spool.hasPending()).toBe(true);
+
+      feedbackResource.create.mockReset().mockResolvedValue({});
+      expect(await logger.replaySpool()).toBe(1);
+      expect(feedbackResource.create).toHaveBeenCalledWith(
+        'log-1',
+        expect.objectContaining({ id, thumbs: 'down' })
+      );
+      expect(spool.hasPending()).toBe(false);
+    });
+
+    it('should not spool logs rejected by the API', async () => {
+      const badRequest = new BadRequestError('bad request', {
+        status: 400,
+        config: {},
+        headers: {},
+      } as any);
+      const mockLogsResource = {
+        create: vi.fn().mockRejectedValue(badRequest),
+        list: vi.fn(),
+        getDetections: vi.fn(),
+      };
+      const spool = new LogSpool(directory);
+      const logger = new QuotientLogger(mockLogsResource, spool);
+      logger.init({ appName: 'test_app', environment: 'test_environment' });
+
+      const result = await logger._internalLog({ userQuery: 'test' });
+      expect(result).toEqual({
+        status: 'failed',
+        errors: ['bad request'],
+        detectionsRequested: [],
+      });
+      expect(spool.hasPending()).toBe(false);
+    });
+
+    it('should report transient errors as failed when spooling is disabled', async () => {
+      const mockLogsResource = {
+        create: vi.fn().mockRejectedValue(connectionError()),
+        list: vi.fn(),
+        getDetections: vi.fn(),
+      };
+      const logger = new QuotientLogger(mockLogsResource);
+      logger.init({ appName: 'test_app', environment: 'test_environment' });
+
+      const result = await logger._internalLog({ userQuery: 'test' });
+      expect(result.status).toBe('failed');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('[QuotientLogger.log] APIConnectionError')
+      );
+    });
+
+    it('should replay spooled logs once the API is reachable again', async () => {
+      const mockLogsResource = {
+        create: vi.fn().mockRejectedValueOnce(connectionError()).mockResolvedValue({}),
+        list: vi.fn(),
+        getDetections: vi.fn(),
+      };
+      const spool = new LogSpool(directory);
+      const logger = new QuotientLogger(mockLogsResource, spool);
+      logger.init({ appName: 'test_app', environment: 'test_environment' });
+
+      const { id: firstId } = await logger._internalLog({ userQuery: 'first' });
+      await logger._internalLog({ userQuery: 'second' });
+      await vi.waitFor(() => expect(spool.hasPending()).toBe(false));
+
+      expect(mockLogsResource.create).toHaveBeenCalledTimes(3);
+      expect(mockLogsResource.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: firstId })
+      );
+    });
+
+    it('should report a failed background replay instead of rejecting', async () => {
+      const spool = new LogSpool(directory);
+      spool.append('log', { id: 'log-1', appName: 'test_app', environment: 'test' });
+      vi.spyOn(spool, 'replay').mockRejectedValue(new Error('EACCES: permission denied'));
+      const mockLogsResource = createMockLogsResource();
+      mockLogsResource.create.mockResolvedValue({});
+      const logger = new QuotientLogger(mockLogsResource, spool);
+      logger.init({ appName: 'test_app', environment: 'test_environment' });
+
+      await logger._internalLog({ userQuery: 'test' });
+
+      await vi.waitFor(() =>
+        expect(consoleErrorSpy).toHaveBeenCalledWith(
+          expect.stringContaining('[QuotientLogger.replaySpool] Error: EACCES')
+        )
+      );
+    });
+
+    it('should discard spooled logs the API rejects during replay', async () => {
+      const spool = new LogSpool(directory);
+      spool.append('log', { id: 'log-1', appName: 'test_app', environment: 'test' });
+      const mockLogsResource = {
+        create: vi
+          .fn()
+          .mockRejectedValue(
+            new BadRequestError('bad request', { status: 400, config: {}, headers: {} } as any)
+          ),
+        list: vi.fn(),
+        getDetections: vi.fn(),
+      };
+      const logger = new QuotientLogger(mockLogsResource, spool);
+
+      await logger.replaySpool();
+
+      expect(spool.hasPending()).toBe(false);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('discarding rejected log')
+      );
+    });
+  });
 });
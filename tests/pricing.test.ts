@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { computeCost } from '../quotientai/pricing';
+
+describe('computeCost', () => {
+  const prices = {
+    'gpt-4o': { promptPerMillion: 2.5, completionPerMillion: 10 },
+    'gpt-4o-mini': { promptPerMillion: 0.15, completionPerMillion: 0.6 },
+  };
+
+  it('should price prompt and completion tokens', () => {
+    expect(
+      computeCost({ model: 'gpt-4o', promptTokens: 1000, completionTokens: 500 }, prices)
+    ).toBe(0.0075);
+  });
+
+  it('should match versioned model names by the longest prefix', () => {
+    expect(computeCost({ model: 'gpt-4o-mini-2024-07-18', promptTokens: 1000000 }, prices)).toBe(
+      0.15
+    );
+    expect(computeCost({ model: 'gpt-4o-2024-08-06', completionTokens: 1000 }, prices)).toBe(0.01);
+  });
+
+  it('should return undefined for unknown models or missing token counts', () => {
+    expect(computeCost({ model: 'claude', promptTokens: 10 }, prices)).toBeUndefined();
+    expect(computeCost({ model: 'gpt-4o' }, prices)).toBeUndefined();
+    expect(computeCost({ promptTokens: 10 }, prices)).toBeUndefined();
+  });
+});
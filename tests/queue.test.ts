@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LogQueue } from '../quotientai/queue';
+
+describe('LogQueue', () => {
+  let consoleErrorSpy: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should send a batch once it is full', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const queue = new LogQueue<number>(send, { maxBatchSize: 2 });
+
+    queue.enqueue(1);
+    expect(send).not.toHaveBeenCalled();
+
+    queue.enqueue(2);
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledOnce();
+    expect(send).toHaveBeenCalledWith([1, 2]);
+    expect(queue.stats).toEqual({ queued: 0, sent: 2, spooled: 0, dropped: 0 });
+    await queue.shutdown();
+  });
+
+  it('should send a partial batch after the flush interval', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const queue = new LogQueue<number>(send, { maxBatchSize: 10, flushInterval: 500 });
+
+    queue.enqueue(1);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledWith([1]);
+    await queue.shutdown();
+  });
+
+  it('should split a flush into batches of maxBatchSize in order', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const queue = new LogQueue<number>(send, { maxBatchSize: 2, maxQueueSize: 10 });
+
+    [1, 2, 3, 4, 5].forEach((item) => queue.enqueue(item));
+    await queue.flush();
+
+    expect(send.mock.calls.map((call) => call[0])).toEqual([[1, 2], [3, 4], [5]]);
+    await queue.shutdown();
+  });
+
+  it('should drop items when the queue is full', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const queue = new LogQueue<number>(send, { maxBatchSize: 5, maxQueueSize: 2 });
+
+    expect(queue.enqueue(1)).toBe(true);
+    expect(queue.enqueue(2)).toBe(true);
+    expect(queue.enqueue(3)).toBe(false);
+
+    expect(queue.stats).toEqual({ queued: 2, sent: 0, spooled: 0, dropped: 1 });
+    await queue.shutdown();
+    expect(queue.stats).toEqual({ queued: 0, sent: 2, spooled: 0, dropped: 1 });
+  });
+
+  it('should count failed batches as dropped and keep going', async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValue(undefined);
+    const queue = new LogQueue<number>(send, { maxBatchSize: 1 });
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    await queue.flush();
+
+    expect(queue.stats).toEqual({ queued: 0, sent: 1, spooled: 0, dropped: 1 });
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('network down'));
+    await queue.shutdown();
+  });
+
+  it('should count batches persisted for later as spooled rather than sent', async () => {
+    const send = vi.fn().mockResolvedValue('spooled');
+    const queue = new LogQueue<number>(send, { maxBatchSize: 2 });
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    await queue.flush();
+
+    expect(queue.stats).toEqual({ queued: 0, sent: 0, spooled: 2, dropped: 0 });
+    await queue.shutdown();
+  });
+});
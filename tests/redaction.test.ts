@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { LogRedactor } from '../quotientai/redaction';
+
+describe('LogRedactor', () => {
+  const redact = (redactor: LogRedactor, value: any) => {
+    const fired = new Set<string>();
+    return { value: redactor.redact(value, fired), fired: Array.from(fired).sort() };
+  };
+
+  it('should mask built-in detections', () => {
+    const { value, fired } = redact(
+      new LogRedactor(),
+      'Mail jane.doe@example.com or call +1 415-555-0132, card 4111 1111 1111 1111, ' +
+        'key sk-proj-abcdefghijklmnopqrstuvwx'
+    );
+
+    expect(value).toBe(
+      'Mail [REDACTED_EMAIL] or call [REDACTED_PHONE], card [REDACTED_CREDIT_CARD], ' +
+        'key [REDACTED_API_KEY]'
+    );
+    expect(fired).toEqual(['api_key', 'credit_card', 'email', 'phone']);
+  });
+
+  it('should recognise common phone number formats', () => {
+    const redactor = new LogRedactor({ redactors: ['phone'] });
+    for (const phone of ['(415) 555-0132', '415.555.0132', '+44 20 7946 0958', '+33612345678']) {
+      expect(redact(redactor, `call ${phone} today`).value).toBe('call [REDACTED_PHONE] today');
+    }
+  });
+
+  it('should leave numbers that fail the card checksum and ordinary text alone', () => {
+    const { value, fired } = redact(new LogRedactor(), 'Order 1234 5678 9012 3456 on 2024-01-15');
+
+    expect(value).toBe('Order 1234 5678 9012 3456 on 2024-01-15');
+    expect(fired).toEqual([]);
+  });
+
+  it('should hash or drop matches', () => {
+    const hashed = redact(new LogRedactor({ strategy: 'hash' }), 'a@b.io and a@b.io');
+    expect(hashed.value).toMatch(/^\[EMAIL:[0-9a-f]{12}\] and \[EMAIL:[0-9a-f]{12}\]$/);
+    const [first, second] = (hashed.value as string).split(' and ');
+    expect(first).toBe(second);
+
+    expect(redact(new LogRedactor({ strategy: 'drop' }), 'to a@b.io now').value).toBe('to  now');
+  });
+
+  it('should only correlate hashes made with the same key', () => {
+    const hash = (hashKey: string) =>
+      redact(new LogRedactor({ strategy: 'hash', hashKey }), 'a@b.io').value;
+
+    expect(hash('key-1')).toBe(hash('key-1'));
+    expect(hash('key-1')).not.toBe(hash('key-2'));
+    // Without a key, values hash the same within this process
+    expect(redact(new LogRedactor({ strategy: 'hash' }), 'a@b.io').value).toBe(
+      redact(new LogRedactor({ strategy: 'hash' }), 'a@b.io').value
+    );
+  });
+
+  it('should apply custom patterns and detect functions', () => {
+    const redactor = new LogRedactor({
+      redactors: [
+        { name: 'employee_id', pattern: /EMP-\d{5}/ },
+        { name: 'codename', detect: (text) => (text.includes('Bluebird') ? ['Bluebird'] : []) },
+      ],
+    });
+
+    const { value, fired } = redact(redactor, 'EMP-12345 and EMP-67890 work on Bluebird');
+    expect(value).toBe(
+      '[REDACTED_EMPLOYEE_ID] and [REDACTED_EMPLOYEE_ID] work on [REDACTED_CODENAME]'
+    );
+    expect(fired).toEqual(['codename', 'employee_id']);
+  });
+
+  it('should redact nested strings without changing keys or other values', () => {
+    const { value } = redact(new LogRedactor({ redactors: ['email'] }), {
+      documents: [{ pageContent: 'from a@b.io', metadata: { author: 'a@b.io', page: 3 } }],
+      messageHistory: null,
+    });
+
+    expect(value).toEqual({
+      documents: [
+        { pageContent: 'from [REDACTED_EMAIL]', metadata: { author: '[REDACTED_EMAIL]', page: 3 } },
+      ],
+      messageHistory: null,
+    });
+  });
+});
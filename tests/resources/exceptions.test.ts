@@ -18,8 +18,11 @@ import {
   parseBadRequestError,
   handleErrors,
   logError,
+  parseErrorDetail,
+  toQuotientError,
+  asResult,
 } from '../../quotientai/exceptions';
-import axios from 'axios';
+import axios, { AxiosError } from 'axios';
 
 describe('QuotientAIError', () => {
   it('should create an error with the correct message', () => {
@@ -364,7 +367,7 @@ describe('Error Handling', () => {
     );
   });
 
-  it('should handle APITimeoutError with retries', async () => {
+  it('should handle APITimeoutError without retrying', async () => {
     const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
     const axiosError = {
       isAxiosError: true,
@@ -384,7 +387,7 @@ describe('Error Handling', () => {
 
     const result = await descriptor.value();
     expect(result).toBeNull();
-    expect(attempts).toBe(3); // Should have tried 3 times
+    expect(attempts).toBe(1); // Retries are left to the client
     expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('APITimeoutError'));
     expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Request timed out'));
   });
@@ -570,37 +573,6 @@ describe('Error Handling', () => {
       expect.stringContaining('unexpected status code: 418')
     );
   });
-
-  it('should return null when retries reach 0', async () => {
-    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-    const axiosError = {
-      isAxiosError: true,
-      code: 'ECONNABORTED',
-      config: { url: 'test', headers: {} },
-    } as any;
-    vi.spyOn(axios, 'isAxiosError').mockReturnValue(true);
-
-    let attempts = 0;
-    const handler = handleErrors();
-    const descriptor = handler({}, 'testMethod', {
-      value: async () => {
-        attempts++;
-        throw axiosError;
-      },
-    });
-
-    // Mock setTimeout to immediately resolve
-    vi.spyOn(global, 'setTimeout').mockImplementation((fn) => {
-      fn();
-      return {} as unknown as NodeJS.Timeout;
-    });
-
-    const result = await descriptor.value();
-    expect(result).toBeNull();
-    expect(attempts).toBe(3); // Should have tried 3 times
-    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('APITimeoutError'));
-    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Request timed out'));
-  });
 });
 
 describe('logError', () => {
@@ -664,3 +636,110 @@ describe('logError', () => {
     );
   });
 });
+
+describe('parseErrorDetail', () => {
+  it('should parse the supported body shapes', () => {
+    expect(parseErrorDetail(null)).toBeUndefined();
+    expect(parseErrorDetail('plain text')).toBe('plain text');
+    expect(parseErrorDetail({ detail: 'Invalid input' })).toBe('Invalid input');
+    expect(parseErrorDetail({ message: 'Something broke' })).toBe('Something broke');
+    expect(parseErrorDetail({ other: true })).toBeUndefined();
+  });
+
+  it('should summarize validation error lists', () => {
+    expect(
+      parseErrorDetail({
+        detail: [
+          { type: 'missing', loc: ['body', 'app_name'] },
+          { type: 'missing', loc: ['body', 'environment'] },
+        ],
+      })
+    ).toBe('missing required fields: app_name, environment');
+
+    expect(
+      parseErrorDetail({
+        detail: [{ type: 'value_error', loc: ['body', 'tags'], msg: 'must be a dict' }],
+      })
+    ).toBe('body.tags: must be a dict');
+  });
+});
+
+describe('toQuotientError', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const config = { url: '/logs', method: 'get', headers: {} } as any;
+  const errorWithStatus = (status: number, data: any = {}) =>
+    new AxiosError('Request failed', 'ERR_BAD_RESPONSE', config, {}, {
+      status,
+      statusText: '',
+      headers: { 'x-request-id': 'req-1' },
+      data,
+      config,
+    } as any);
+
+  it.each([
+    [400, BadRequestError],
+    [401, AuthenticationError],
+    [403, PermissionDeniedError],
+    [404, NotFoundError],
+    [409, ConflictError],
+    [422, UnprocessableEntityError],
+    [429, RateLimitError],
+    [500, InternalServerError],
+    [503, InternalServerError],
+    [418, APIStatusError],
+  ])('should map status %i to the matching error class', (status, errorClass) => {
+    const error = toQuotientError(errorWithStatus(status)) as APIStatusError;
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.status).toBe(status);
+    expect(error.requestId).toBe('req-1');
+    expect(error.method).toBe('GET');
+    expect(error.path).toBe('/logs');
+  });
+
+  it('should use the parsed detail as the message for bad requests', () => {
+    const error = toQuotientError(errorWithStatus(400, { detail: 'appName is required' }));
+    expect(error.message).toBe('appName is required');
+    expect((error as BadRequestError).detail).toBe('appName is required');
+  });
+
+  it('should map timeouts and connection failures', () => {
+    const timeout = toQuotientError(new AxiosError('timeout', 'ECONNABORTED', config));
+    expect(timeout).toBeInstanceOf(APITimeoutError);
+    expect((timeout as APITimeoutError).path).toBe('/logs');
+
+    const reset = toQuotientError(new AxiosError('socket hang up', 'ECONNRESET', config));
+    expect(reset).toBeInstanceOf(APIConnectionError);
+    expect(reset).not.toBeInstanceOf(APITimeoutError);
+  });
+
+  it('should return non-axios errors unchanged', () => {
+    const error = new Error('boom');
+    expect(toQuotientError(error)).toBe(error);
+  });
+});
+
+describe('asResult', () => {
+  it('should wrap successful calls', async () => {
+    await expect(asResult(Promise.resolve(42))).resolves.toEqual({
+      ok: true,
+      data: 42,
+      error: null,
+    });
+  });
+
+  it('should return QuotientAIErrors instead of throwing', async () => {
+    const error = new QuotientAIError('failed');
+    await expect(asResult(Promise.reject(error))).resolves.toEqual({
+      ok: false,
+      data: null,
+      error,
+    });
+  });
+
+  it('should rethrow unexpected errors', async () => {
+    await expect(asResult(Promise.reject(new TypeError('bug')))).rejects.toThrow('bug');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BaseQuotientClient } from '../../quotientai/client';
+import { FeedbackResource } from '../../quotientai/resources/feedback';
+import { ValidationError } from '../../quotientai/exceptions';
+
+describe('FeedbackResource', () => {
+  it('should create feedback in snake_case', async () => {
+    const client = new BaseQuotientClient('test');
+    vi.spyOn(client, 'post').mockResolvedValue({ id: 'fb-1' });
+
+    const feedbackResource = new FeedbackResource(client);
+    await feedbackResource.create('log-1', {
+      id: 'fb-1',
+      createdAt: '2024-03-20T10:00:00Z',
+      thumbs: 'down',
+      comment: 'Wrong answer',
+      userId: 'u1',
+    });
+
+    expect(client.post).toHaveBeenCalledWith(
+      '/logs/log-1/feedback',
+      {
+        id: 'fb-1',
+        created_at: '2024-03-20T10:00:00Z',
+        thumbs: 'down',
+        comment: 'Wrong answer',
+        user_id: 'u1',
+      },
+      undefined,
+      { idempotent: true }
+    );
+  });
+
+  it('should require a log id', async () => {
+    const feedbackResource = new FeedbackResource(new BaseQuotientClient('test'));
+
+    await expect(feedbackResource.create('', { thumbs: 'up' })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it('should only send changed fields when updating feedback', async () => {
+    const client = new BaseQuotientClient('test');
+    vi.spyOn(client, 'patch').mockResolvedValue({});
+
+    const feedbackResource = new FeedbackResource(client);
+    await feedbackResource.update('log-1', 'fb-1', { rating: 4 });
+
+    expect(client.patch).toHaveBeenCalledWith(
+      '/logs/log-1/feedback/fb-1',
+      { rating: 4 },
+      undefined,
+      {}
+    );
+  });
+
+  it('should list feedback in camelCase', async () => {
+    const client = new BaseQuotientClient('test');
+    vi.spyOn(client, 'get').mockResolvedValue({
+      feedback: [
+        {
+          id: 'fb-1',
+          log_id: 'log-1',
+          thumbs: 'up',
+          rating: null,
+          comment: null,
+          user_id: 'u1',
+          created_at: '2024-03-20T10:00:00Z',
+        },
+      ],
+    });
+
+    const feedbackResource = new FeedbackResource(client);
+    const feedback = await feedbackResource.list('log-1');
+
+    expect(client.get).toHaveBeenCalledWith('/logs/log-1/feedback', undefined, undefined, {});
+    expect(feedback).toEqual([
+      {
+        id: 'fb-1',
+        logId: 'log-1',
+        thumbs: 'up',
+        rating: undefined,
+        comment: undefined,
+        userId: 'u1',
+        tags: undefined,
+        createdAt: '2024-03-20T10:00:00Z',
+      },
+    ]);
+  });
+});
@@ -1,7 +1,19 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
 import { BaseQuotientClient } from '../../quotientai/client';
 import { LogsResource, Log } from '../../quotientai/resources/logs';
-import { DetectionType } from '../../quotientai/types';
+import { DetectionType, LOG_STATUS } from '../../quotientai/types';
+import {
+  AuthenticationError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+} from '../../quotientai/exceptions';
 
 describe('LogsResource', () => {
   const mockLogs = [
@@ -61,7 +73,7 @@ describe('LogsResource', () => {
     expect(logs[0].appName).toBe('test-app');
     expect(logs[0].environment).toBe('development');
     expect(logs[0].createdAt).toBeInstanceOf(Date);
-    expect(client.get).toHaveBeenCalledWith('/logs', {});
+    expect(client.get).toHaveBeenCalledWith('/logs', {}, undefined, {});
   });
 
   it('should list logs with query parameters', async () => {
@@ -85,29 +97,107 @@ describe('LogsResource', () => {
 
     expect(logs).toHaveLength(1);
     expect(logs[0].environment).toBe('development');
-    expect(client.get).toHaveBeenCalledWith('/logs', {
-      app_name: 'test-app',
-      environment: 'development',
-      start_date: startDate.toISOString(),
-      end_date: endDate.toISOString(),
-      limit: 10,
-      offset: 0,
-    });
+    expect(client.get).toHaveBeenCalledWith(
+      '/logs',
+      {
+        app_name: 'test-app',
+        environment: 'development',
+        start_date: startDate.toISOString(),
+        end_date: endDate.toISOString(),
+        limit: 10,
+        offset: 0,
+      },
+      undefined,
+      {}
+    );
   });
 
-  it('should handle errors when listing logs', async () => {
+  it('should list logs by session', async () => {
     const client = new BaseQuotientClient('test');
-    const consoleErrorSpy = vi.spyOn(console, 'error');
-    vi.spyOn(client, 'get').mockRejectedValue(new Error('Test error'));
+    vi.spyOn(client, 'get').mockResolvedValue({
+      logs: [{ ...mockLogs[0], session_id: 'sess-1', conversation_id: 'conv-1', turn_index: 2 }],
+    });
 
     const logsResource = new LogsResource(client);
-    const result = await logsResource.list();
+    const logs = await logsResource.list({ sessionId: 'sess-1', conversationId: 'conv-1' });
+
+    expect(client.get).toHaveBeenCalledWith(
+      '/logs',
+      {
+        session_id: 'sess-1',
+        conversation_id: 'conv-1',
+      },
+      undefined,
+      {}
+    );
+    expect(logs[0].sessionId).toBe('sess-1');
+    expect(logs[0].conversationId).toBe('conv-1');
+    expect(logs[0].turnIndex).toBe(2);
+    expect(new Log(mockLogs[1]).sessionId).toBeUndefined();
+  });
+
+  it('should list logs with tag, status, outcome and text filters', async () => {
+    const client = new BaseQuotientClient('test');
+    vi.spyOn(client, 'get').mockResolvedValue({ logs: [] });
+
+    await new LogsResource(client).list({
+      tags: { user_id: '123' },
+      status: [LOG_STATUS.LOG_CREATED_AND_DETECTION_COMPLETED, LOG_STATUS.LOG_NOT_FOUND],
+      hasHallucination: false,
+      minDocRelevancyAverage: 0.2,
+      maxDocRelevancyAverage: 0.8,
+      detections: [DetectionType.HALLUCINATION, DetectionType.DOCUMENT_RELEVANCY],
+      search: 'refund',
+    });
 
-    expect(result).toEqual([]);
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      expect.stringContaining('[LogsResource.list] Error: Test error')
+    expect(client.get).toHaveBeenCalledWith(
+      '/logs',
+      {
+        tags: '{"user_id":"123"}',
+        status: 'log_created_and_detection_completed,log_not_found',
+        has_hallucination: false,
+        min_doc_relevancy_average: 0.2,
+        max_doc_relevancy_average: 0.8,
+        detections: 'hallucination,document_relevancy',
+        search: 'refund',
+      },
+      undefined,
+      {}
     );
-    expect(client.get).toHaveBeenCalledWith('/logs', {});
+  });
+
+  it('should expose detection status and outcomes on logs', () => {
+    const log = new Log({
+      ...mockLogs[0],
+      detections: ['hallucination'],
+      status: 'log_created_and_detection_completed',
+      has_hallucination: true,
+      doc_relevancy_average: 0.75,
+      updated_at: '2024-03-20T10:05:00Z',
+    });
+
+    expect(log.detections).toEqual([DetectionType.HALLUCINATION]);
+    expect(log.status).toBe(LOG_STATUS.LOG_CREATED_AND_DETECTION_COMPLETED);
+    expect(log.hasHallucination).toBe(true);
+    expect(log.hasInconsistency).toBeNull();
+    expect(log.docRelevancyAverage).toBe(0.75);
+    expect(log.updatedAt).toEqual(new Date('2024-03-20T10:05:00Z'));
+    expect(new Log(mockLogs[1]).status).toBeUndefined();
+  });
+
+  it('should propagate errors when listing logs', async () => {
+    const client = new BaseQuotientClient('test');
+    const error = new RateLimitError('rate limited', {
+      status: 429,
+      config: { url: '/logs', method: 'get' },
+      headers: {},
+    } as any);
+    vi.spyOn(client, 'get').mockRejectedValue(error);
+
+    const logsResource = new LogsResource(client);
+
+    await expect(logsResource.list()).rejects.toBeInstanceOf(RateLimitError);
+    expect(client.get).toHaveBeenCalledWith('/logs', {}, undefined, {});
   });
 
   // Tests for the edge cases in list method (lines 117-119)
@@ -123,7 +213,7 @@ describe('LogsResource', () => {
     expect(consoleSpy).toHaveBeenCalledWith(
       'No logs found. Please check your query parameters and try again.'
     );
-    expect(client.get).toHaveBeenCalledWith('/logs', {});
+    expect(client.get).toHaveBeenCalledWith('/logs', {}, undefined, {});
   });
 
   it('should handle response with missing logs property', async () => {
@@ -138,7 +228,7 @@ describe('LogsResource', () => {
     expect(consoleSpy).toHaveBeenCalledWith(
       'No logs found. Please check your query parameters and try again.'
     );
-    expect(client.get).toHaveBeenCalledWith('/logs', {});
+    expect(client.get).toHaveBeenCalledWith('/logs', {}, undefined, {});
   });
 
   it('should handle response with logs not being an array', async () => {
@@ -153,7 +243,7 @@ describe('LogsResource', () => {
     expect(consoleSpy).toHaveBeenCalledWith(
       'No logs found. Please check your query parameters and try again.'
     );
-    expect(client.get).toHaveBeenCalledWith('/logs', {});
+    expect(client.get).toHaveBeenCalledWith('/logs', {}, undefined, {});
   });
 
   it('should create a log', async () => {
@@ -179,30 +269,93 @@ describe('LogsResource', () => {
       tags: { user_id: '123' },
     });
 
-    expect(client.post).toHaveBeenCalledWith('/logs', {
-      app_name: 'test-app',
+    expect(client.post).toHaveBeenCalledWith(
+      '/logs',
+      {
+        app_name: 'test-app',
+        environment: 'development',
+        detections: [DetectionType.HALLUCINATION],
+        detection_sample_rate: 0.5,
+        user_query: 'What is the capital of France?',
+        model_output: 'Paris is the capital of France.',
+        documents: ['doc1', 'doc2'],
+        message_history: [
+          { role: 'user', content: 'What is the capital of France?' },
+          { role: 'assistant', content: 'Paris is the capital of France.' },
+        ],
+        instructions: ['Be concise', 'Be accurate'],
+        tags: { user_id: '123' },
+      },
+      undefined,
+      { idempotent: false }
+    );
+  });
+
+  it('should send session fields in snake_case', async () => {
+    const client = new BaseQuotientClient('test');
+    vi.spyOn(client, 'post').mockResolvedValue({ id: 'log-1' });
+
+    const logsResource = new LogsResource(client);
+    await logsResource.create({
+      appName: 'test-app',
       environment: 'development',
-      detections: [DetectionType.HALLUCINATION],
-      detection_sample_rate: 0.5,
-      user_query: 'What is the capital of France?',
-      model_output: 'Paris is the capital of France.',
-      documents: ['doc1', 'doc2'],
-      message_history: [
-        { role: 'user', content: 'What is the capital of France?' },
-        { role: 'assistant', content: 'Paris is the capital of France.' },
-      ],
-      instructions: ['Be concise', 'Be accurate'],
-      tags: { user_id: '123' },
+      userQuery: 'q',
+      sessionId: 'sess-1',
+      conversationId: 'conv-1',
+      turnIndex: 0,
     });
+
+    expect(client.post).toHaveBeenCalledWith(
+      '/logs',
+      expect.objectContaining({ session_id: 'sess-1', conversation_id: 'conv-1', turn_index: 0 }),
+      undefined,
+      { idempotent: false }
+    );
   });
 
-  it('should handle errors when creating a log', async () => {
+  it('should convert usage fields to snake_case and back', async () => {
+    const client = new BaseQuotientClient('test');
+    vi.spyOn(client, 'post').mockResolvedValue({ id: 'log-1' });
+    vi.spyOn(client, 'get').mockResolvedValue({
+      logs: [{ ...mockLogs[0], model: 'gpt-4o', prompt_tokens: 10, latency_ms: 250, cost: 0.01 }],
+    });
+
+    const logsResource = new LogsResource(client);
+    await logsResource.create({
+      appName: 'test-app',
+      environment: 'development',
+      model: 'gpt-4o',
+      provider: 'openai',
+      promptTokens: 10,
+      completionTokens: 20,
+      latencyMs: 250,
+      cost: 0.01,
+    });
+    const [log] = await logsResource.list();
+
+    expect(client.post).toHaveBeenCalledWith(
+      '/logs',
+      expect.objectContaining({
+        model: 'gpt-4o',
+        provider: 'openai',
+        prompt_tokens: 10,
+        completion_tokens: 20,
+        latency_ms: 250,
+        cost: 0.01,
+      }),
+      undefined,
+      { idempotent: false }
+    );
+    expect(log).toMatchObject({ model: 'gpt-4o', promptTokens: 10, latencyMs: 250, cost: 0.01 });
+    expect(log.completionTokens).toBeUndefined();
+  });
+
+  it('should propagate errors when creating a log', async () => {
     const client = new BaseQuotientClient('test');
-    const consoleErrorSpy = vi.spyOn(console, 'error');
     vi.spyOn(client, 'post').mockRejectedValue(new Error('Test error'));
 
     const logsResource = new LogsResource(client);
-    const result = await logsResource.create({
+    const result = logsResource.create({
       appName: 'test-app',
       environment: 'development',
       detections: [DetectionType.HALLUCINATION],
@@ -218,24 +371,818 @@ describe('LogsResource', () => {
       tags: { user_id: '123' },
     });
 
-    expect(result).toBeNull();
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      expect.stringContaining('[LogsResource.create] Error: Test error')
+    await expect(result).rejects.toThrow('Test error');
+    expect(client.post).toHaveBeenCalledWith(
+      '/logs',
+      {
+        app_name: 'test-app',
+        environment: 'development',
+        detections: [DetectionType.HALLUCINATION],
+        detection_sample_rate: 0.5,
+        user_query: 'What is the capital of France?',
+        model_output: 'Paris is the capital of France.',
+        documents: ['doc1', 'doc2'],
+        message_history: [
+          { role: 'user', content: 'What is the capital of France?' },
+          { role: 'assistant', content: 'Paris is the capital of France.' },
+        ],
+        instructions: ['Be concise', 'Be accurate'],
+        tags: { user_id: '123' },
+      },
+      undefined,
+      { idempotent: false }
     );
-    expect(client.post).toHaveBeenCalledWith('/logs', {
-      app_name: 'test-app',
-      environment: 'development',
-      detections: [DetectionType.HALLUCINATION],
-      detection_sample_rate: 0.5,
-      user_query: 'What is the capital of France?',
-      model_output: 'Paris is the capital of France.',
-      documents: ['doc1', 'doc2'],
-      message_history: [
-        { role: 'user', content: 'What is the capital of France?' },
-        { role: 'assistant', content: 'Paris is the capital of France.' },
+  });
+
+  describe('iterate', () => {
+    // A client serving n logs, paged with limit and offset, at most maxPageSize at a time
+    const createPagedClient = (n: number, maxPageSize = Infinity) => {
+      const client = new BaseQuotientClient('test');
+      const logs = Array.from({ length: n }, (_, i) => ({ ...mockLogs[0], id: `log-${i}` }));
+      vi.spyOn(client, 'get').mockImplementation(async (_path, params: any) => ({
+        logs: logs.slice(params.offset, params.offset + Math.min(params.limit, maxPageSize)),
+      }));
+      return client;
+    };
+
+    const collect = async (iterable: AsyncIterable<Log>) => {
+      const ids: string[] = [];
+      for await (const log of iterable) {
+        ids.push(log.id);
+      }
+      return ids;
+    };
+
+    it('should page through every log with the filters', async () => {
+      const client = createPagedClient(5);
+
+      const ids = await collect(
+        new LogsResource(client).iterate({ appName: 'test-app', pageSize: 2 })
+      );
+
+      expect(ids).toEqual(['log-0', 'log-1', 'log-2', 'log-3', 'log-4']);
+      // The last request finds the end of the results
+      expect(client.get).toHaveBeenCalledTimes(4);
+      expect(client.get).toHaveBeenLastCalledWith(
+        '/logs',
+        {
+          app_name: 'test-app',
+          limit: 2,
+          offset: 5,
+        },
+        undefined,
+        {}
+      );
+    });
+
+    it('should not stop at pages shorter than pageSize', async () => {
+      const client = createPagedClient(250, 50);
+
+      const ids = await collect(new LogsResource(client).iterate({ pageSize: 100 }));
+
+      expect(ids).toEqual(Array.from({ length: 250 }, (_, i) => `log-${i}`));
+    });
+
+    it('should not skip logs when pages are shorter than pageSize with concurrency', async () => {
+      const client = createPagedClient(250, 30);
+
+      const ids = await collect(
+        new LogsResource(client).iterate({ pageSize: 100, concurrency: 4 })
+      );
+
+      expect(ids).toEqual(Array.from({ length: 250 }, (_, i) => `log-${i}`));
+    });
+
+    it('should request up to concurrency pages at once and yield them in order', async () => {
+      const client = createPagedClient(6);
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const get = (client.get as any).getMockImplementation();
+      vi.spyOn(client, 'get').mockImplementation(async (path, params: any) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // Later pages answer first
+        await new Promise((resolve) => setTimeout(resolve, 20 - params.offset));
+        inFlight--;
+        return get(path, params);
+      });
+
+      const ids = await collect(new LogsResource(client).iterate({ pageSize: 2, concurrency: 3 }));
+
+      expect(ids).toEqual(['log-0', 'log-1', 'log-2', 'log-3', 'log-4', 'log-5']);
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should resume from the cursor of a stopped iteration', async () => {
+      const client = createPagedClient(5);
+      const logsResource = new LogsResource(client);
+
+      const iterator = logsResource.iterate({ pageSize: 2 });
+      for await (const log of iterator) {
+        if (log.id === 'log-2') {
+          break;
+        }
+      }
+
+      expect(await collect(logsResource.iterate({ pageSize: 2, cursor: iterator.cursor }))).toEqual(
+        ['log-3', 'log-4']
+      );
+    });
+
+    it('should reject invalid options and cursors', () => {
+      const logsResource = new LogsResource(new BaseQuotientClient('test'));
+
+      expect(() => logsResource.iterate({ pageSize: 0 })).toThrow(
+        'pageSize must be a positive integer'
+      );
+      expect(() => logsResource.iterate({ concurrency: 1.5 })).toThrow(
+        'concurrency must be a positive integer'
+      );
+      expect(() => logsResource.iterate({ cursor: 'not-a-cursor' })).toThrow(ValidationError);
+    });
+
+    it('should propagate errors from a page request', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'get').mockRejectedValue(new Error('boom'));
+
+      await expect(collect(new LogsResource(client).iterate({ concurrency: 2 }))).rejects.toThrow(
+        'boom'
+      );
+    });
+  });
+
+  describe('request options', () => {
+    it('should pass per-call retry options to the client', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'get').mockResolvedValue({ logs: [], log: mockLogs[0] });
+      vi.spyOn(client, 'post').mockResolvedValue({});
+      const logsResource = new LogsResource(client);
+
+      await logsResource.list({ appName: 'test-app' }, { maxRetries: 0 });
+      await logsResource.get('log-1', { maxRetries: 5 });
+      await logsResource.create(
+        { appName: 'test-app', environment: 'test', userQuery: 'q', modelOutput: 'a' },
+        { idempotent: true }
+      );
+
+      expect(client.get).toHaveBeenCalledWith('/logs', { app_name: 'test-app' }, undefined, {
+        maxRetries: 0,
+      });
+      expect(client.get).toHaveBeenCalledWith('/logs/log-1', undefined, undefined, {
+        maxRetries: 5,
+      });
+      expect(client.post).toHaveBeenCalledWith('/logs', expect.any(Object), undefined, {
+        idempotent: true,
+      });
+    });
+  });
+
+  describe('get, update and delete', () => {
+    const notFound = (method: string) =>
+      new NotFoundError('not found', {
+        status: 404,
+        config: { url: '/logs/missing', method },
+        headers: {},
+      } as any);
+
+    it('should get a log by id', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'get').mockResolvedValue({ log: mockLogs[0] });
+
+      const log = await new LogsResource(client).get('log-1');
+
+      expect(client.get).toHaveBeenCalledWith('/logs/log-1', undefined, undefined, {});
+      expect(log).toBeInstanceOf(Log);
+      expect(log.userQuery).toBe('What is the capital of France?');
+    });
+
+    it('should replace the tags of a log', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'patch').mockResolvedValue({
+        log: { ...mockLogs[0], tags: { reviewed: true } },
+      });
+
+      const log = await new LogsResource(client).updateTags('log-1', { reviewed: true });
+
+      expect(client.patch).toHaveBeenCalledWith(
+        '/logs/log-1',
+        { tags: { reviewed: true } },
+        undefined,
+        {}
+      );
+      expect(log.tags).toEqual({ reviewed: true });
+    });
+
+    it('should delete a log and return it', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'delete').mockResolvedValue({ log: mockLogs[1] });
+
+      const log = await new LogsResource(client).delete('log-2');
+
+      expect(client.delete).toHaveBeenCalledWith('/logs/log-2', undefined, {});
+      expect(log.id).toBe('log-2');
+    });
+
+    it('should delete logs matching a filter', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'post').mockResolvedValue({ logs: mockLogs });
+
+      const logs = await new LogsResource(client).deleteWhere({
+        appName: 'test-app',
+        tags: { user_id: '123' },
+      });
+
+      expect(client.post).toHaveBeenCalledWith(
+        '/logs/delete',
+        { app_name: 'test-app', tags: { user_id: '123' } },
+        undefined,
+        { idempotent: true }
+      );
+      expect(logs.map((log) => log.id)).toEqual(['log-1', 'log-2']);
+    });
+
+    it('should refuse to delete without a filter', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'post');
+
+      await expect(new LogsResource(client).deleteWhere({ tags: {} })).rejects.toMatchObject({
+        name: 'ValidationError',
+        code: 'required',
+      });
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete by tags without values', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'post');
+      const logsResource = new LogsResource(client);
+
+      await expect(
+        logsResource.deleteWhere({ tags: { user_id: undefined } })
+      ).rejects.toMatchObject({ name: 'ValidationError', code: 'required', field: 'tags.user_id' });
+      await expect(
+        logsResource.deleteWhere({ appName: 'test-app', tags: { user_id: null } })
+      ).rejects.toMatchObject({ name: 'ValidationError', field: 'tags.user_id' });
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    it('should not delete on outcome or text filters alone', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'post').mockResolvedValue({ logs: [] });
+      const logsResource = new LogsResource(client);
+
+      await expect(
+        logsResource.deleteWhere({ search: 'a', hasHallucination: true })
+      ).rejects.toMatchObject({ name: 'ValidationError', code: 'required', field: 'filter' });
+      expect(client.post).not.toHaveBeenCalled();
+
+      await logsResource.deleteWhere({ appName: 'test-app', search: 'a' });
+      expect(client.post).toHaveBeenCalledWith(
+        '/logs/delete',
+        { app_name: 'test-app', search: 'a' },
+        undefined,
+        { idempotent: true }
+      );
+    });
+
+    it('should require an id', async () => {
+      const logsResource = new LogsResource(new BaseQuotientClient('test'));
+
+      await expect(logsResource.get('')).rejects.toBeInstanceOf(ValidationError);
+      await expect(logsResource.updateTags('', {})).rejects.toBeInstanceOf(ValidationError);
+      await expect(logsResource.delete('')).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should propagate typed errors from the client', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'get').mockRejectedValue(notFound('get'));
+      vi.spyOn(client, 'delete').mockRejectedValue(notFound('delete'));
+
+      const logsResource = new LogsResource(client);
+
+      await expect(logsResource.get('missing')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(logsResource.delete('missing')).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('export', () => {
+    const collect = (output: PassThrough) => {
+      const chunks: string[] = [];
+      output.on('data', (chunk) => chunks.push(chunk.toString()));
+      return () => chunks.join('');
+    };
+
+    const detectionResponse = {
+      log: { id: 'log-1', app_name: 'test-app' },
+      log_documents: [
+        {
+          id: 'doc-1',
+          content: 'doc1',
+          metadata: null,
+          log_id: 'log-1',
+          index: 0,
+          is_relevant: false,
+          relevancy_reasoning: 'Off topic',
+        },
       ],
-      instructions: ['Be concise', 'Be accurate'],
-      tags: { user_id: '123' },
+      log_message_history: null,
+      log_instructions: null,
+      evaluations: [
+        {
+          id: 'eval-1',
+          sentence: 'Paris is the capital of France.',
+          supporting_document_ids: [],
+          supporting_message_history_ids: [],
+          supporting_instruction_ids: [],
+          is_hallucinated: true,
+          full_doc_context_has_hallucination: true,
+          index: 0,
+          document_evaluations: [],
+          message_history_evaluations: [],
+          instruction_evaluations: [],
+          full_doc_context_evaluation: null,
+        },
+      ],
+    };
+
+    it('should write one JSONL row per matching log', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'get').mockImplementation(async (_path, params: any) => ({
+        logs: mockLogs.slice(params.offset),
+      }));
+      const output = new PassThrough();
+      const written = collect(output);
+
+      const logsResource = new LogsResource(client);
+      const result = await logsResource.export({
+        output,
+        filter: { appName: 'test-app', tags: { user_id: '123' } },
+      });
+
+      expect(result).toEqual({ logs: 2, rows: 2 });
+      expect(client.get).toHaveBeenCalledTimes(2);
+      expect(client.get).toHaveBeenCalledWith(
+        '/logs',
+        {
+          app_name: 'test-app',
+          tags: '{"user_id":"123"}',
+          limit: 100,
+          offset: 0,
+        },
+        undefined,
+        {}
+      );
+      const rows = written()
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(rows[0]).toMatchObject({
+        logId: 'log-1',
+        createdAt: '2024-03-20T10:00:00.000Z',
+        tags: { user_id: '123' },
+      });
+      expect(rows[0]).not.toHaveProperty('evaluatedSentences');
+      expect(rows[1].logId).toBe('log-2');
+    });
+
+    it('should write CSV with a header and detection summaries', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'get').mockImplementation(async (path: string, params?: any) =>
+        path === '/logs' ? { logs: [mockLogs[0]].slice(params.offset) } : detectionResponse
+      );
+      const output = new PassThrough();
+      const written = collect(output);
+
+      const logsResource = new LogsResource(client);
+      await logsResource.export({ output, format: 'csv', includeDetections: true });
+
+      expect(client.get).toHaveBeenCalledWith('/logs/log-1/rca', undefined, undefined, {});
+      const [header, row] = written().trim().split('\n');
+      const columns = header.split(',');
+      expect(columns[0]).toBe('logId');
+      expect(columns).toContain('hallucinatedSentences');
+      expect(row.startsWith('log-1,2024-03-20T10:00:00.000Z,test-app,development,')).toBe(true);
+      expect(row).toContain('"{""user_id"":""123""}"');
+    });
+
+    it('should write one row per evaluated sentence or document', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'get').mockImplementation(async (path: string, params?: any) =>
+        path === '/logs' ? { logs: [mockLogs[0]].slice(params.offset) } : detectionResponse
+      );
+
+      const logsResource = new LogsResource(client);
+      const sentences = new PassThrough();
+      const writtenSentences = collect(sentences);
+      const documents = new PassThrough();
+      const writtenDocuments = collect(documents);
+
+      expect(
+        await logsResource.export({ output: sentences, rows: 'sentence', includeDetections: true })
+      ).toEqual({ logs: 1, rows: 1 });
+      await logsResource.export({ output: documents, rows: 'document', includeDetections: true });
+
+      expect(JSON.parse(writtenSentences())).toMatchObject({
+        logId: 'log-1',
+        sentence: 'Paris is the capital of France.',
+        isHallucinated: true,
+      });
+      expect(JSON.parse(writtenDocuments())).toMatchObject({
+        logId: 'log-1',
+        documentId: 'doc-1',
+        isRelevant: false,
+        relevancyReasoning: 'Off topic',
+      });
+    });
+
+    it('should validate its options', async () => {
+      const client = new BaseQuotientClient('test');
+      const logsResource = new LogsResource(client);
+      const output = new PassThrough();
+
+      await expect(logsResource.export({} as any)).rejects.toThrow('output is required');
+      await expect(logsResource.export({ output, format: 'xml' as any })).rejects.toThrow(
+        ValidationError
+      );
+      await expect(logsResource.export({ output, rows: 'sentence' })).rejects.toMatchObject({
+        code: 'conflict',
+        field: 'includeDetections',
+      });
+    });
+  });
+
+  describe('importFile', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quotient-logs-import-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const writeFile = (name: string, lines: string[]) => {
+      const filePath = path.join(directory, name);
+      fs.writeFileSync(filePath, lines.join('\n') + '\n');
+      return filePath;
+    };
+
+    const readReport = (reportPath: string) =>
+      fs
+        .readFileSync(reportPath, 'utf8')
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+
+    const jsonlRow = (fields: Record<string, any> = {}) =>
+      JSON.stringify({
+        appName: 'test-app',
+        environment: 'production',
+        userQuery: 'What is the capital of France?',
+        modelOutput: 'Paris',
+        ...fields,
+      });
+
+    it('should upload JSONL rows in batches', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'post').mockResolvedValue({});
+      const filePath = writeFile('logs.jsonl', [
+        jsonlRow({ id: 'log-1', createdAt: '2024-03-20T10:00:00Z' }),
+        jsonlRow({ id: 'log-2' }),
+        jsonlRow({ id: 'log-3' }),
+      ]);
+
+      const logsResource = new LogsResource(client);
+      const result = await logsResource.importFile(filePath, {
+        batchSize: 2,
+        requestsPerSecond: 1000,
+      });
+
+      expect(result).toEqual({ imported: 3, rejected: 0, reportPath: null });
+      expect(client.post).toHaveBeenCalledTimes(2);
+      const [url, body, , options] = vi.mocked(client.post).mock.calls[0];
+      expect(url).toBe('/logs/batch');
+      expect(options).toEqual({ idempotent: true });
+      expect(body.logs.map((log: any) => log.id)).toEqual(['log-1', 'log-2']);
+      expect(body.logs[0]).toMatchObject({
+        app_name: 'test-app',
+        created_at: '2024-03-20T10:00:00.000Z',
+        user_query: 'What is the capital of France?',
+        detections: [],
+      });
+      expect(fs.existsSync(`${filePath}.rejected.jsonl`)).toBe(false);
+    });
+
+    it('should map CSV columns and apply defaults', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'post').mockResolvedValue({});
+      const filePath = writeFile('logs.csv', [
+        'question,answer,context,history',
+        'Q1,A1,"doc one","[{""role"":""user"",""content"":""hi""}]"',
+      ]);
+
+      const logsResource = new LogsResource(client);
+      const result = await logsResource.importFile(filePath, {
+        mapping: {
+          userQuery: 'question',
+          modelOutput: 'answer',
+          documents: 'context',
+          messageHistory: 'history',
+        },
+        appName: 'imported-app',
+        environment: 'staging',
+      });
+
+      expect(result.imported).toBe(1);
+      const [log] = vi.mocked(client.post).mock.calls[0][1].logs;
+      expect(log).toMatchObject({
+        app_name: 'imported-app',
+        environment: 'staging',
+        user_query: 'Q1',
+        model_output: 'A1',
+        documents: ['doc one'],
+        message_history: [{ role: 'user', content: 'hi' }],
+      });
+      expect(typeof log.id).toBe('string');
+    });
+
+    it('should report rows that fail to parse or validate and import the rest', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'post').mockResolvedValue({});
+      const filePath = writeFile('logs.jsonl', [
+        jsonlRow({ id: 'ok' }),
+        '{broken',
+        jsonlRow({ environment: undefined }),
+        jsonlRow({ detections: ['hallucination'], documents: undefined }),
+        jsonlRow({ documents: [{ content: 'no pageContent' }] }),
+        jsonlRow({ detections: ['sentiment'] }),
+      ]);
+      const reportPath = path.join(directory, 'report.jsonl');
+
+      const logsResource = new LogsResource(client);
+      const result = await logsResource.importFile(filePath, { reportPath });
+
+      expect(result).toEqual({ imported: 1, rejected: 5, reportPath });
+      const report = readReport(reportPath);
+      expect(report.map((entry) => [entry.row, entry.code, entry.field])).toEqual([
+        [2, 'invalid_type', undefined],
+        [3, 'required', 'environment'],
+        [4, 'required', 'documents'],
+        [5, 'required', 'documents[0].pageContent'],
+        [6, 'invalid_type', 'detections'],
+      ]);
+      expect(report[0].data).toBe('{broken');
+      expect(report[1].data.appName).toBe('test-app');
+    });
+
+    it('should report only the rows the API rejects', async () => {
+      const client = new BaseQuotientClient('test');
+      const badRequest = (url: string) =>
+        new BadRequestError('bad row', {
+          status: 400,
+          config: { url, method: 'post' },
+          headers: {},
+        } as any);
+      vi.spyOn(client, 'post').mockImplementation(async (url: string, body: any) => {
+        if (url === '/logs/batch' && body.logs.some((log: any) => log.id === 'bad')) {
+          throw badRequest(url);
+        }
+        if (url === '/logs' && body.id === 'bad') {
+          throw badRequest(url);
+        }
+        return {};
+      });
+      const filePath = writeFile('logs.jsonl', [
+        jsonlRow({ id: 'ok-1' }),
+        jsonlRow({ id: 'bad' }),
+        jsonlRow({ id: 'ok-2' }),
+      ]);
+
+      const logsResource = new LogsResource(client);
+      const result = await logsResource.importFile(filePath, {
+        batchSize: 2,
+        requestsPerSecond: 1000,
+      });
+
+      expect(result).toMatchObject({ imported: 2, rejected: 1 });
+      expect(readReport(result.reportPath!)).toEqual([
+        expect.objectContaining({ row: 2, error: 'bad row' }),
+      ]);
+      const paths = vi
+        .mocked(client.post)
+        .mock.calls.map(([url, body]) => (url === '/logs' ? `/logs:${body.id}` : url));
+      expect(paths).toEqual(['/logs/batch', '/logs:ok-1', '/logs:bad', '/logs/batch']);
+    });
+
+    it('should count rows the API already has as imported', async () => {
+      const client = new BaseQuotientClient('test');
+      const conflict = (url: string) =>
+        new ConflictError('log already exists', {
+          status: 409,
+          config: { url, method: 'post' },
+          headers: {},
+        } as any);
+      vi.spyOn(client, 'post').mockImplementation(async (url: string, body: any) => {
+        if (url === '/logs/batch' || body.id === 'existing') {
+          throw conflict(url);
+        }
+        return {};
+      });
+      const filePath = writeFile('logs.jsonl', [
+        jsonlRow({ id: 'existing' }),
+        jsonlRow({ id: 'new' }),
+      ]);
+
+      const logsResource = new LogsResource(client);
+      const result = await logsResource.importFile(filePath, { requestsPerSecond: 1000 });
+
+      expect(result).toEqual({ imported: 2, rejected: 0, reportPath: null });
+    });
+
+    it('should stop on errors that are not caused by the rows', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'post').mockRejectedValue(
+        new AuthenticationError('unauthorized', {
+          status: 401,
+          config: { url: '/logs/batch', method: 'post' },
+          headers: {},
+        } as any)
+      );
+      const filePath = writeFile('logs.jsonl', [jsonlRow()]);
+
+      const logsResource = new LogsResource(client);
+
+      await expect(logsResource.importFile(filePath)).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it('should space uploads to stay under requestsPerSecond', async () => {
+      const client = new BaseQuotientClient('test');
+      const times: number[] = [];
+      vi.spyOn(client, 'post').mockImplementation(async () => {
+        times.push(Date.now());
+        return {};
+      });
+      const filePath = writeFile('logs.jsonl', [jsonlRow(), jsonlRow(), jsonlRow()]);
+
+      const logsResource = new LogsResource(client);
+      await logsResource.importFile(filePath, { batchSize: 1, requestsPerSecond: 20 });
+
+      expect(times).toHaveLength(3);
+      // 50ms apart, allowing for timer imprecision
+      expect(times[1] - times[0]).toBeGreaterThanOrEqual(45);
+      expect(times[2] - times[1]).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should validate its options', async () => {
+      const client = new BaseQuotientClient('test');
+      const logsResource = new LogsResource(client);
+      const filePath = writeFile('logs.jsonl', [jsonlRow()]);
+
+      await expect(logsResource.importFile(path.join(directory, 'missing.jsonl'))).rejects.toThrow(
+        'File not found'
+      );
+      await expect(logsResource.importFile(filePath, { batchSize: 0 })).rejects.toThrow(
+        ValidationError
+      );
+      await expect(logsResource.importFile(filePath, { requestsPerSecond: 0 })).rejects.toThrow(
+        'requestsPerSecond must be a positive number'
+      );
+      await expect(logsResource.importFile(filePath, { format: 'xml' as any })).rejects.toThrow(
+        "format must be 'jsonl' or 'csv'"
+      );
+    });
+  });
+
+  describe('getDetections', () => {
+    it('should require a log id', async () => {
+      const client = new BaseQuotientClient('test');
+      const logsResource = new LogsResource(client);
+
+      await expect(logsResource.getDetections('')).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should include feedback with the detection results', async () => {
+      const client = new BaseQuotientClient('test');
+      vi.spyOn(client, 'get').mockResolvedValue({
+        log: { id: 'log-1', app_name: 'test-app', status: 'log_created_and_detection_completed' },
+        log_documents: null,
+        log_message_history: null,
+        log_instructions: null,
+        evaluations: [],
+        feedback: [{ id: 'fb-1', log_id: 'log-1', rating: 2, created_at: '2024-03-20T10:00:00Z' }],
+      });
+
+      const logsResource = new LogsResource(client);
+      const results = await logsResource.getDetections('log-1');
+
+      expect(results?.feedback).toEqual([
+        expect.objectContaining({ id: 'fb-1', logId: 'log-1', rating: 2 }),
+      ]);
+    });
+
+    it('should propagate typed errors from the client', async () => {
+      const client = new BaseQuotientClient('test');
+      const error = new NotFoundError('not found', {
+        status: 404,
+        config: { url: '/logs/missing/rca', method: 'get' },
+        headers: { 'x-request-id': 'req-123' },
+      } as any);
+      vi.spyOn(client, 'get').mockRejectedValue(error);
+
+      const logsResource = new LogsResource(client);
+      const result = logsResource.getDetections('missing');
+
+      await expect(result).rejects.toBeInstanceOf(NotFoundError);
+      await expect(result).rejects.toMatchObject({
+        status: 404,
+        path: '/logs/missing/rca',
+        requestId: 'req-123',
+      });
     });
   });
+
+  it('should create logs in a batch', async () => {
+    const client = new BaseQuotientClient('test');
+    vi.spyOn(client, 'post').mockResolvedValue({});
+
+    const logsResource = new LogsResource(client);
+    await logsResource.createBatch([
+      {
+        id: 'log-1',
+        appName: 'test-app',
+        environment: 'development',
+        userQuery: 'What is the capital of France?',
+        documents: [{ pageContent: 'Paris is in France', metadata: { source: 'wiki' } }],
+      },
+      { id: 'log-2', appName: 'test-app', environment: 'development' },
+    ]);
+
+    expect(client.post).toHaveBeenCalledWith(
+      '/logs/batch',
+      {
+        logs: [
+          expect.objectContaining({
+            id: 'log-1',
+            app_name: 'test-app',
+            user_query: 'What is the capital of France?',
+            documents: [{ page_content: 'Paris is in France', metadata: { source: 'wiki' } }],
+          }),
+          expect.objectContaining({ id: 'log-2', documents: [] }),
+        ],
+      },
+      undefined,
+      { idempotent: true }
+    );
+  });
+
+  it('should create logs one at a time if the API has no batch endpoint', async () => {
+    const client = new BaseQuotientClient('test');
+    vi.spyOn(client, 'post').mockImplementation(async (path: string) => {
+      if (path === '/logs/batch') {
+        throw new NotFoundError('not found', {
+          status: 404,
+          config: { url: '/logs/batch', method: 'post' },
+          headers: {},
+        } as any);
+      }
+      return {};
+    });
+
+    const logsResource = new LogsResource(client);
+    const logs = [
+      { id: 'log-1', appName: 'test-app', environment: 'development' },
+      { id: 'log-2', appName: 'test-app', environment: 'development' },
+    ];
+    await logsResource.createBatch(logs);
+    await logsResource.createBatch(logs);
+
+    const paths = vi.mocked(client.post).mock.calls.map(([path]) => path);
+    // The batch endpoint is only tried once
+    expect(paths).toEqual(['/logs/batch', '/logs', '/logs', '/logs', '/logs']);
+    expect(client.post).toHaveBeenLastCalledWith(
+      '/logs',
+      expect.objectContaining({ id: 'log-2' }),
+      undefined,
+      { idempotent: true }
+    );
+  });
+
+  it('should not fall back to single requests for other batch errors', async () => {
+    const client = new BaseQuotientClient('test');
+    vi.spyOn(client, 'post').mockRejectedValue(
+      new RateLimitError('rate limited', {
+        status: 429,
+        config: { url: '/logs/batch', method: 'post' },
+        headers: {},
+      } as any)
+    );
+
+    const logsResource = new LogsResource(client);
+
+    await expect(
+      logsResource.createBatch([{ appName: 'test-app', environment: 'development' }])
+    ).rejects.toBeInstanceOf(RateLimitError);
+    expect(client.post).toHaveBeenCalledOnce();
+  });
 });
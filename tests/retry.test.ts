@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AxiosError } from 'axios';
+import {
+  isIdempotentMethod,
+  parseRetryAfter,
+  retryDelay,
+  shouldRetry,
+  MAX_RETRY_DELAY,
+} from '../quotientai/retry';
+
+function axiosError(status?: number, headers: Record<string, any> = {}, code?: string) {
+  const response = status
+    ? ({ status, headers, data: {}, statusText: '', config: {} } as any)
+    : undefined;
+  return new AxiosError('request failed', code, {} as any, {}, response);
+}
+
+describe('retry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should treat GET, PUT and DELETE as idempotent but not POST or PATCH', () => {
+    expect(isIdempotentMethod('GET')).toBe(true);
+    expect(isIdempotentMethod('put')).toBe(true);
+    expect(isIdempotentMethod('DELETE')).toBe(true);
+    expect(isIdempotentMethod('POST')).toBe(false);
+    expect(isIdempotentMethod('PATCH')).toBe(false);
+  });
+
+  it('should retry 408, 429 and 5xx responses regardless of idempotency', () => {
+    expect(shouldRetry(axiosError(408), false)).toBe(true);
+    expect(shouldRetry(axiosError(429), false)).toBe(true);
+    expect(shouldRetry(axiosError(500), false)).toBe(true);
+    expect(shouldRetry(axiosError(503), false)).toBe(true);
+  });
+
+  it('should not retry other client errors', () => {
+    expect(shouldRetry(axiosError(400), true)).toBe(false);
+    expect(shouldRetry(axiosError(401), true)).toBe(false);
+    expect(shouldRetry(axiosError(404), true)).toBe(false);
+    expect(shouldRetry(axiosError(422), true)).toBe(false);
+  });
+
+  it('should only retry connection failures for idempotent requests', () => {
+    const reset = axiosError(undefined, {}, 'ECONNRESET');
+    expect(shouldRetry(reset, true)).toBe(true);
+    expect(shouldRetry(reset, false)).toBe(false);
+  });
+
+  it('should not retry cancelled requests or non-axios errors', () => {
+    expect(shouldRetry(axiosError(undefined, {}, AxiosError.ERR_CANCELED), true)).toBe(false);
+    expect(shouldRetry(new Error('boom'), true)).toBe(false);
+  });
+
+  it('should parse Retry-After headers', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter({})).toBeNull();
+    expect(parseRetryAfter({ 'retry-after': '2' })).toBe(2000);
+    expect(parseRetryAfter({ 'retry-after-ms': '150' })).toBe(150);
+
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const parsed = parseRetryAfter({ 'retry-after': date })!;
+    expect(parsed).toBeGreaterThan(3000);
+    expect(parsed).toBeLessThanOrEqual(5000);
+
+    expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeNull();
+  });
+
+  it('should honor a reasonable Retry-After over backoff', () => {
+    expect(retryDelay(axiosError(429, { 'retry-after': '3' }), 0)).toBe(3000);
+  });
+
+  it('should ignore an excessive Retry-After', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(retryDelay(axiosError(429, { 'retry-after': '3600' }), 0)).toBe(500);
+  });
+
+  it('should back off exponentially with jitter up to the maximum delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(retryDelay(axiosError(503), 0)).toBe(500);
+    expect(retryDelay(axiosError(503), 1)).toBe(1000);
+    expect(retryDelay(axiosError(503), 2)).toBe(2000);
+    expect(retryDelay(axiosError(503), 10)).toBe(MAX_RETRY_DELAY);
+
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(retryDelay(axiosError(503), 1)).toBe(750);
+  });
+});
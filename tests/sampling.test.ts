@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findSamplingRule, hashToUnit } from '../quotientai/sampling';
+import { LogEntry } from '../quotientai/types';
+
+describe('hashToUnit', () => {
+  it('should map the same key to the same value', () => {
+    expect(hashToUnit('user-123')).toBe(hashToUnit('user-123'));
+    expect(hashToUnit('user-123')).not.toBe(hashToUnit('user-124'));
+  });
+
+  it('should spread keys evenly over [0, 1)', () => {
+    const values = Array.from({ length: 2000 }, (_, i) => hashToUnit(`key-${i}`));
+
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    const belowHalf = values.filter((value) => value < 0.5).length / values.length;
+    expect(belowHalf).toBeGreaterThan(0.45);
+    expect(belowHalf).toBeLessThan(0.55);
+  });
+});
+
+describe('findSamplingRule', () => {
+  const log: LogEntry = {
+    appName: 'app',
+    environment: 'prod',
+    tags: { tier: 'enterprise', feature: 'search' },
+    documents: ['doc'],
+    modelOutput: 'x'.repeat(50),
+  };
+
+  it('should return the first matching rule', () => {
+    const enterprise = { match: { tags: { tier: 'enterprise' } }, sampleRate: 1 };
+    const catchAll = { sampleRate: 0.05 };
+
+    expect(findSamplingRule([enterprise, catchAll], log)).toBe(enterprise);
+    expect(findSamplingRule([catchAll, enterprise], log)).toBe(catchAll);
+    expect(findSamplingRule([enterprise], { ...log, tags: { tier: 'free' } })).toBeUndefined();
+  });
+
+  it('should require every condition to match', () => {
+    const rule = {
+      match: {
+        tags: { tier: ['enterprise', 'pro'] },
+        environment: ['prod', 'staging'],
+        hasDocuments: true,
+        minOutputLength: 10,
+        maxOutputLength: 100,
+      },
+    };
+
+    expect(findSamplingRule([rule], log)).toBe(rule);
+    expect(findSamplingRule([rule], { ...log, environment: 'dev' })).toBeUndefined();
+    expect(findSamplingRule([rule], { ...log, documents: [] })).toBeUndefined();
+    expect(findSamplingRule([rule], { ...log, modelOutput: 'short' })).toBeUndefined();
+    expect(findSamplingRule([rule], { ...log, modelOutput: 'x'.repeat(101) })).toBeUndefined();
+  });
+
+  it('should accept a predicate', () => {
+    const rule = { match: (entry: LogEntry) => entry.tags?.feature === 'search' };
+    expect(findSamplingRule([rule], log)).toBe(rule);
+  });
+
+  it('should treat a predicate that throws as not matching', () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = {
+      match: () => {
+        throw new Error('boom');
+      },
+      sampleRate: 0,
+    };
+    const catchAll = { sampleRate: 1 };
+
+    expect(findSamplingRule([broken, catchAll], log)).toBe(catchAll);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[samplingRules[0].match] Error: boom')
+    );
+    consoleErrorSpy.mockRestore();
+  });
+});
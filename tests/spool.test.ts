@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogSpool, SpoolRecord } from '../quotientai/spool';
+
+describe('LogSpool', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quotient-spool-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const segmentFiles = () => fs.readdirSync(directory).filter((name) => name.endsWith('.jsonl'));
+
+  it('should start empty', () => {
+    const spool = new LogSpool(directory);
+    expect(spool.hasPending()).toBe(false);
+  });
+
+  it('should persist records as JSONL and replay them in order', async () => {
+    const spool = new LogSpool(directory);
+    expect(spool.append('log', { id: 'log-1', createdAt: '2024-01-01T00:00:00.000Z' })).toBe(true);
+    expect(spool.append('log', { id: 'log-2' })).toBe(true);
+    expect(spool.hasPending()).toBe(true);
+
+    const sent: SpoolRecord[] = [];
+    const replayed = await spool.replay(async (record) => {
+      sent.push(record);
+    });
+
+    expect(replayed).toBe(2);
+    expect(sent).toEqual([
+      { kind: 'log', payload: { id: 'log-1', createdAt: '2024-01-01T00:00:00.000Z' } },
+      { kind: 'log', payload: { id: 'log-2' } },
+    ]);
+    expect(spool.hasPending()).toBe(false);
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+
+  it('should pick up records left by a previous process', async () => {
+    new LogSpool(directory).append('log', { id: 'log-1' });
+
+    const spool = new LogSpool(directory);
+    expect(spool.hasPending()).toBe(true);
+
+    const send = vi.fn().mockResolvedValue(undefined);
+    await spool.replay(send);
+    expect(send).toHaveBeenCalledWith({ kind: 'log', payload: { id: 'log-1' } });
+  });
+
+  it('should keep unsent records when replay fails', async () => {
+    const spool = new LogSpool(directory);
+    spool.append('log', { id: 'log-1' });
+    spool.append('log', { id: 'log-2' });
+    spool.append('log', { id: 'log-3' });
+
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('still offline'));
+    expect(await spool.replay(send)).toBe(1);
+    expect(spool.hasPending()).toBe(true);
+
+    const sent: any[] = [];
+    await spool.replay(async (record) => {
+      sent.push(record.payload.id);
+    });
+    expect(sent).toEqual(['log-2', 'log-3']);
+  });
+
+  it('should not overwrite records appended to a segment while it was being replayed', async () => {
+    const writer = new LogSpool(directory);
+    const replayer = new LogSpool(directory);
+    writer.append('log', { id: 'log-1' });
+
+    // The writer re-creates the claimed segment, then the replay fails
+    expect(
+      await replayer.replay(async () => {
+        writer.append('log', { id: 'log-2' });
+        throw new Error('still offline');
+      })
+    ).toBe(0);
+
+    const sent: any[] = [];
+    await new LogSpool(directory).replay(async (record) => {
+      sent.push(record.payload.id);
+    });
+    expect(sent).toEqual(['log-1', 'log-2']);
+  });
+
+  it('should not release a claim on an old segment that is still being replayed', async () => {
+    const spool = new LogSpool(directory);
+    spool.append('log', { id: 'log-1' });
+    spool.append('log', { id: 'log-2' });
+    // Written long before the replay starts
+    const old = new Date(Date.now() - 60 * 60 * 1000);
+    for (const name of segmentFiles()) {
+      fs.utimesSync(path.join(directory, name), old, old);
+    }
+
+    const sent: any[] = [];
+    const replayed = await new LogSpool(directory).replay(async (record) => {
+      // Another process starts up mid-replay
+      new LogSpool(directory);
+      sent.push(record.payload.id);
+    });
+
+    expect(replayed).toBe(2);
+    expect(sent).toEqual(['log-1', 'log-2']);
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+
+  it('should skip torn lines', async () => {
+    fs.writeFileSync(
+      path.join(directory, '1-1-0.jsonl'),
+      '{"kind":"log","payload":{"id":"log-1"}}\n{"kind":"log","pay'
+    );
+    const spool = new LogSpool(directory);
+
+    const send = vi.fn().mockResolvedValue(undefined);
+    expect(await spool.replay(send)).toBe(1);
+  });
+
+  it('should rotate segments once they reach maxSegmentBytes', () => {
+    const spool = new LogSpool(directory, { maxSegmentBytes: 100 });
+    for (let i = 0; i < 5; i++) {
+      spool.append('log', { id: `log-${i}`, userQuery: 'x'.repeat(40) });
+    }
+    expect(segmentFiles().length).toBe(5);
+  });
+
+  it('should evict the oldest segments when over maxBytes', async () => {
+    const spool = new LogSpool(directory, { maxSegmentBytes: 100, maxBytes: 250 });
+    for (let i = 0; i < 5; i++) {
+      expect(spool.append('log', { id: `log-${i}`, userQuery: 'x'.repeat(40) })).toBe(true);
+    }
+    expect(spool.evicted).toBe(3);
+
+    const sent: any[] = [];
+    await spool.replay(async (record) => {
+      sent.push(record.payload.id);
+    });
+    expect(sent).toEqual(['log-3', 'log-4']);
+  });
+
+  it('should reject new records with the drop-newest policy', async () => {
+    const spool = new LogSpool(directory, {
+      maxSegmentBytes: 100,
+      maxBytes: 250,
+      eviction: 'drop-newest',
+    });
+    const results = [];
+    for (let i = 0; i < 5; i++) {
+      results.push(spool.append('log', { id: `log-${i}`, userQuery: 'x'.repeat(40) }));
+    }
+    expect(results).toEqual([true, true, false, false, false]);
+    expect(spool.evicted).toBe(3);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileTokenStore, MemoryTokenStore, NoopTokenStore } from '../quotientai/tokens';
+
+const tokenData = { token: 'jwt', expires_at: 1700000000, api_key: 'test_api_key' };
+
+describe('FileTokenStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quotient-tokens-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should return null when no token has been saved', () => {
+    const store = new FileTokenStore(path.join(directory, 'auth_token.json'));
+    expect(store.load()).toBeNull();
+  });
+
+  it('should save, load and clear a token, creating the directory', async () => {
+    const store = new FileTokenStore(path.join(directory, 'nested', 'auth_token.json'));
+
+    await store.save(tokenData);
+    expect(store.load()).toEqual(tokenData);
+
+    store.clear();
+    expect(store.load()).toBeNull();
+  });
+
+  it('should write atomically and leave no temp or lock files behind', async () => {
+    const tokenPath = path.join(directory, 'auth_token.json');
+    await new FileTokenStore(tokenPath).save(tokenData);
+
+    expect(fs.readdirSync(directory)).toEqual(['auth_token.json']);
+  });
+
+  it('should keep a stored token that expires later', async () => {
+    const store = new FileTokenStore(path.join(directory, 'auth_token.json'));
+    await store.save({ ...tokenData, token: 'newer', expires_at: tokenData.expires_at + 60 });
+    await store.save(tokenData);
+
+    expect(store.load()?.token).toBe('newer');
+  });
+
+  it('should wait for a lock held by another process', async () => {
+    const tokenPath = path.join(directory, 'auth_token.json');
+    fs.writeFileSync(`${tokenPath}.lock`, '');
+    const saving = new FileTokenStore(tokenPath).save(tokenData);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(fs.existsSync(tokenPath)).toBe(false);
+
+    fs.unlinkSync(`${tokenPath}.lock`);
+    await saving;
+    expect(JSON.parse(fs.readFileSync(tokenPath, 'utf-8'))).toEqual(tokenData);
+  });
+
+  it('should break a stale lock', async () => {
+    const tokenPath = path.join(directory, 'auth_token.json');
+    fs.writeFileSync(`${tokenPath}.lock`, '');
+    const stale = new Date(Date.now() - 60000);
+    fs.utimesSync(`${tokenPath}.lock`, stale, stale);
+
+    await new FileTokenStore(tokenPath).save(tokenData);
+    expect(JSON.parse(fs.readFileSync(tokenPath, 'utf-8'))).toEqual(tokenData);
+  });
+
+  it('should return null for a corrupt token file', () => {
+    const tokenPath = path.join(directory, 'auth_token.json');
+    fs.writeFileSync(tokenPath, '{not json');
+    expect(new FileTokenStore(tokenPath).load()).toBeNull();
+  });
+});
+
+describe('MemoryTokenStore', () => {
+  it('should keep the token in memory', () => {
+    const store = new MemoryTokenStore();
+    expect(store.load()).toBeNull();
+
+    store.save(tokenData);
+    expect(store.load()).toEqual(tokenData);
+
+    store.clear();
+    expect(store.load()).toBeNull();
+  });
+});
+
+describe('NoopTokenStore', () => {
+  it('should never return a token', () => {
+    const store = new NoopTokenStore();
+    store.save();
+    expect(store.load()).toBeNull();
+  });
+});
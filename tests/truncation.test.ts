@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { truncateLog } from '../quotientai/truncation';
+
+describe('truncateLog', () => {
+  const base = { id: 'log-1', appName: 'test', environment: 'test', tags: {} };
+
+  it('should return the log unchanged when it is within the limits', () => {
+    const log = { ...base, userQuery: 'q', documents: ['doc'], messageHistory: [{ role: 'user' }] };
+
+    expect(truncateLog(log, { maxDocuments: 2, maxDocumentLength: 10 })).toEqual({
+      log,
+      truncated: [],
+      fits: true,
+    });
+  });
+
+  it('should keep the first documents, the latest messages and cut long documents', () => {
+    const { log, truncated } = truncateLog(
+      {
+        ...base,
+        documents: ['abcdef', { pageContent: 'ghijkl', metadata: { source: 'x' } }, 'dropped'],
+        messageHistory: [{ content: '1' }, { content: '2' }, { content: '3' }],
+      },
+      { maxDocuments: 2, maxDocumentLength: 3, maxMessageHistory: 2 }
+    );
+
+    expect(log.documents).toEqual(['abc', { pageContent: 'ghi', metadata: { source: 'x' } }]);
+    expect(log.messageHistory).toEqual([{ content: '2' }, { content: '3' }]);
+    expect(truncated).toEqual(['documents', 'messageHistory']);
+  });
+
+  it('should keep the end of cut texts with the tail strategy', () => {
+    const { log } = truncateLog(
+      { ...base, documents: ['abcdef'] },
+      { maxDocumentLength: 2, truncate: 'tail' }
+    );
+
+    expect(log.documents).toEqual(['ef']);
+  });
+
+  it('should not modify the original log', () => {
+    const original = { ...base, documents: ['abcdef'], messageHistory: [{}, {}] };
+
+    truncateLog(original, { maxDocumentLength: 1, maxMessageHistory: 0 });
+
+    expect(original).toEqual({ ...base, documents: ['abcdef'], messageHistory: [{}, {}] });
+  });
+
+  it('should shorten documents before dropping anything to fit maxPayloadBytes', () => {
+    const { log, truncated, fits } = truncateLog(
+      {
+        ...base,
+        userQuery: 'short question',
+        documents: ['a'.repeat(5000), 'b'.repeat(300)],
+        messageHistory: [{ content: 'hi' }, { content: 'there' }],
+      },
+      { maxPayloadBytes: 2000 }
+    );
+
+    expect(fits).toBe(true);
+    expect(Buffer.byteLength(JSON.stringify(log))).toBeLessThanOrEqual(2000);
+    expect(log.documents).toHaveLength(2);
+    expect(log.documents![1]).toBe('b'.repeat(300));
+    expect(log.messageHistory).toHaveLength(2);
+    expect(log.userQuery).toBe('short question');
+    expect(truncated).toEqual(['documents']);
+  });
+
+  it('should drop old messages, then documents, then shorten the output to fit', () => {
+    const { log, truncated, fits } = truncateLog(
+      {
+        ...base,
+        modelOutput: 'o'.repeat(4000),
+        documents: ['d'.repeat(200), 'e'.repeat(200)],
+        messageHistory: [{ content: 'm'.repeat(200) }, { content: 'latest' }],
+      },
+      { maxPayloadBytes: 1000 }
+    );
+
+    expect(fits).toBe(true);
+    expect(log.messageHistory).toEqual([{ content: 'latest' }]);
+    expect(log.documents).toEqual([]);
+    expect(log.modelOutput!.length).toBeLessThan(1000);
+    expect(truncated).toEqual(['documents', 'messageHistory', 'modelOutput']);
+  });
+
+  it('should report when the log cannot be made small enough', () => {
+    const { fits } = truncateLog({ ...base, userQuery: 'q'.repeat(200) }, { maxPayloadBytes: 50 });
+
+    expect(fits).toBe(false);
+  });
+});